@@ -1,104 +1,98 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Player, SimulationStats, ChartDataPoint, SimulationStatus, DistributionStrategy, SimulationConfig, RoundLog } from './types';
+import { Player, SimulationStats, SeriesPoint, SimulationStatus, DistributionStrategy, SimulationConfig, EngineState, EngineStep, BehaviorSettings, BehaviorModelId, MultiplierPolicyId, Scenario, EngineSnapshot, LedgerEntry, FundsBreakdown, InvariantViolation, PlayerOutcome, FeeSplit, JackpotPolicyId, RefundPolicyId, RecordedSeries } from './types';
 import { QueueVisualizer } from './components/QueueVisualizer';
 import { ExitsVisualizer } from './components/ExitsVisualizer';
 import { StatsChart } from './components/StatsChart';
 import { SmartContractViewer } from './components/SmartContractViewer';
 import { UserDapp } from './components/UserDapp';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { SweepPanel } from './components/SweepPanel';
+import { ComparisonPanel } from './components/ComparisonPanel';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { SnapshotPanel } from './components/SnapshotPanel';
+import { LedgerPanel } from './components/LedgerPanel';
+import { InvariantPanel } from './components/InvariantPanel';
+import { PayoutBreakdownCard } from './components/PayoutBreakdownCard';
+import { CohortPanel } from './components/CohortPanel';
+import { WealthPanel } from './components/WealthPanel';
+import { RoundDetailPanel } from './components/RoundDetailPanel';
 import { analyzeRisk } from './services/geminiService';
-import { Play, Pause, RefreshCw, Bot, TrendingUp, Settings, Users, ShieldCheck, Droplets, Trophy, Crown, Skull, Clock, Zap, Target, Activity, Globe, ShieldAlert, Percent, ArrowRightLeft, TrendingDown, Scale, Hourglass, History, AlertTriangle } from 'lucide-react';
-import { v4 as uuidv4 } from 'uuid';
-
-const INITIAL_SEED_AMOUNT = 1000;
-const INITIAL_SEED_MULTIPLIER = 1.1; 
-const DAILY_DRIP_INTERVAL = 240; 
-const ROUND_EXTENSION_SECONDS = 600; 
-const MAX_ROUND_DURATION_SECONDS = 86400; 
-const AUTO_PAUSE_TICKS = 20000; // Increased for longer sims
-
-// Internal Engine State
-interface EngineState {
-  queue: Player[];
-  exits: Player[]; 
-  historyCount: number;
-  historySum: number;
-  totalDeposited: number;
-  protocolBalance: number;
-  jackpotBalance: number; 
-  currentRound: number; // Engine Tick
-  gameRound: number; // Actual Game Day
-  chartData: ChartDataPoint[];
-  tickCount: number;
-  config: SimulationConfig;
-  currentAdaptiveMultiplier: number; 
-  pendingTransactions: { amount: number; isClient: boolean; isReinvest: boolean }[];
-  
-  // Round State
-  roundExpiry: number;
-  lastDepositorId: string | null;
-  roundHistory: RoundLog[];
-  roundActive: boolean;
-  transactionsInCurrentRound: number;
-
-  // Sustainability Metrics
-  currentLiability: number;
-  healthFactor: number;
-  dynamicFee: number;
-  exitPenaltyRate: number; // Fluctuation based on panic
-}
+import { Play, Pause, RefreshCw, Bot, TrendingUp, Settings, Users, ShieldCheck, Droplets, Trophy, Crown, Skull, Clock, Zap, Target, Activity, Globe, ShieldAlert, Percent, ArrowRightLeft, TrendingDown, Scale, Hourglass, History, AlertTriangle, Shuffle, FlaskConical } from 'lucide-react';
+import { createEngineState, processDeposit, handleEmergencyWithdraw, startNextRound, runTick, splitFee } from './engine/simulationEngine';
+import { randomSeed, normalizeSeed } from './engine/random';
+import { formatSimTime } from './engine/clock';
+import { DEFAULT_CONFIG, DEFAULT_MULTIPLIER, DEFAULT_RUN_LENGTH } from './engine/defaults';
+import { BEHAVIOR_MODELS, DEFAULT_BEHAVIOR, defaultBehaviorParams, resolveBehaviorParams } from './engine/behaviors';
+import { MULTIPLIER_POLICIES, defaultMultiplierParams, resolveMultiplierParams } from './engine/multiplierPolicies';
+import { DISTRIBUTION_STRATEGIES } from './engine/distribution';
+import { JACKPOT_POLICIES, REFUND_POLICIES } from './engine/settlement';
+import { createScenario } from './engine/scenario';
+import { createSnapshot } from './engine/snapshot';
+import { createLedger, Ledger, ledgerToCsv, ledgerToJson } from './engine/ledger';
+import { createInvariantChecker, InvariantChecker } from './engine/invariants';
+import { emptyPayouts, paidToUsers, payoutsToCsv } from './engine/payouts';
+import { roundsToCsv } from './engine/rounds';
+import { createOutcomeTracker, OutcomeTracker } from './engine/outcomes';
+import { createSeriesRecorder, SERIES_CAPACITY, SeriesRecorder } from './engine/series';
+import { downloadText } from './services/fileDownload';
+
+const TIME_WARP_OPTIONS = [1, 5, 25, 100]; // Engine ticks per UI frame
+
+const FEE_ROUTES: { field: 'feeToReserve' | 'feeToJackpot' | 'feeToOperator' | 'feeToQueue'; label: string }[] = [
+  { field: 'feeToReserve', label: 'Reserve' },
+  { field: 'feeToJackpot', label: 'Jackpot pool' },
+  { field: 'feeToOperator', label: 'Operator / treasury' },
+  { field: 'feeToQueue', label: 'Queue (immediate)' }
+];
+const FEE_SPLIT_KEYS: Record<typeof FEE_ROUTES[number]['field'], keyof FeeSplit> = {
+  feeToReserve: 'toReserve',
+  feeToJackpot: 'toJackpot',
+  feeToOperator: 'toOperator',
+  feeToQueue: 'toQueue'
+};
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'simulation' | 'contract' | 'dapp'>('dapp'); 
-  const [settingsTab, setSettingsTab] = useState<'core' | 'economy' | 'risks'>('core');
-  const [multiplier, setMultiplier] = useState<number>(2.0); 
+  const [activeTab, setActiveTab] = useState<'simulation' | 'analysis' | 'contract' | 'dapp'>('dapp'); 
+  const [settingsTab, setSettingsTab] = useState<'core' | 'economy' | 'risks' | 'scenario'>('core');
+  const [multiplier, setMultiplier] = useState<number>(DEFAULT_MULTIPLIER); 
   const [strategy, setStrategy] = useState<DistributionStrategy>(DistributionStrategy.STANDARD);
+  const [seed, setSeed] = useState<number>(() => randomSeed());
 
   // Config State
-  const [config, setConfig] = useState<SimulationConfig>({
-    feePercent: 0.05, 
-    
-    penaltyEnabled: true,
-    penaltyThreshold: 500,
-    penaltyRate: 0.10, 
-    penaltyType: 'ENTRY',
-
-    breakEvenChance: 0.0, 
-    dailyDripRate: 0.10,      
-    yieldSplit: 0.0, 
-    target100Enabled: false,
-    decayStrategyEnabled: true, 
-    initialReserve: 10000,     
-    jackpotFrequency: 1000,
-    jackpotAmount: 500,
-    reinvestRate: 0.40,
-    reverseYieldRate: 0.20,
-    decayRate: 0.005, // Lowered for smoother decay
-    
-    maxDepositLimit: 1000, 
-    maxTransactions: 1000, // Fixed 1000 Tx per day limit
-    roundDurationSeconds: 86400 
-  });
+  const [config, setConfig] = useState<SimulationConfig>(DEFAULT_CONFIG);
+  const [timeWarp, setTimeWarp] = useState<number>(1);
+  const [behavior, setBehavior] = useState<BehaviorSettings>(DEFAULT_BEHAVIOR);
+  const [runLength, setRunLength] = useState<number>(DEFAULT_RUN_LENGTH); // Engine ticks before auto-run stops
 
   const [status, setStatus] = useState<SimulationStatus>(SimulationStatus.RUNNING);
   const [analysis, setAnalysis] = useState<string>('');
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [manualDepositAmount, setManualDepositAmount] = useState<number>(100);
+  const [selectedRound, setSelectedRound] = useState<number | null>(null); // Round History drill-down
 
   // Rendering Snapshot
   const [uiSnapshot, setUiSnapshot] = useState<{
     queueSlice: Player[];
     exitSlice: Player[];
     stats: SimulationStats;
-    chartData: ChartDataPoint[];
+    series: SeriesPoint[];
+    seriesStride: number;
     headPlayer: Player | null;
     clientPositions: Player[];
+    ledgerTail: LedgerEntry[];
+    ledgerSize: number;
+    funds: FundsBreakdown;
+    violations: readonly InvariantViolation[];
+    violationCount: number;
+    outcomes: PlayerOutcome[];
   }>({
     queueSlice: [],
     exitSlice: [],
     stats: {
       totalDeposited: 0,
       totalPaidOut: 0,
+      payouts: emptyPayouts(),
       totalUsers: 0,
       usersPaidExit: 0,
       usersTrapped: 0,
@@ -108,9 +102,12 @@ const App: React.FC = () => {
       multiplier: 2.0,
       protocolBalance: config.initialReserve,
       jackpotBalance: 0,
-      target100Enabled: false,
+      operatorBalance: 0,
+      writtenOffPrincipal: 0,
       config: config,
-      roundExpiry: Date.now() + config.roundDurationSeconds * 1000,
+      seed,
+      simulatedTime: 0,
+      roundExpiry: config.roundDurationSeconds * 1000,
       lastDepositorId: null,
       roundActive: true,
       roundHistory: [],
@@ -118,491 +115,108 @@ const App: React.FC = () => {
       healthFactor: 1.0,
       currentExitPenalty: 0.20
     },
-    chartData: [],
+    series: [],
+    seriesStride: 1,
     headPlayer: null,
-    clientPositions: []
+    clientPositions: [],
+    ledgerTail: [],
+    ledgerSize: 0,
+    funds: { inflows: config.initialReserve, queueCollected: 0, paidOut: 0, reserve: config.initialReserve, jackpot: 0, operator: 0, drift: 0 },
+    violations: [],
+    violationCount: 0,
+    outcomes: []
   });
 
-  const engine = useRef<EngineState>({
-    queue: [{
-      id: 'PROTOCOL_SEED',
-      deposit: INITIAL_SEED_AMOUNT,
-      target: INITIAL_SEED_AMOUNT * INITIAL_SEED_MULTIPLIER, 
-      collected: 0,
-      entryRound: 1,
-      timestamp: Date.now(),
-      slashed: false,
-      multiplier: INITIAL_SEED_MULTIPLIER,
-      isTaxTarget: false,
-      fastFilled: false,
-      isClientDeposit: false,
-      isReinvest: false,
-      isUnlucky: false
-    }],
-    exits: [],
-    historyCount: 0,
-    historySum: 0,
-    totalDeposited: INITIAL_SEED_AMOUNT,
-    protocolBalance: config.initialReserve,
-    jackpotBalance: 0,
-    currentRound: 1,
-    gameRound: 1,
-    chartData: [],
-    tickCount: 0,
-    config: config,
-    currentAdaptiveMultiplier: 2.0,
-    pendingTransactions: [],
-    roundExpiry: Date.now() + 86400000,
-    lastDepositorId: 'PROTOCOL_SEED',
-    roundHistory: [],
-    roundActive: true,
-    transactionsInCurrentRound: 0,
-    currentLiability: 0,
-    healthFactor: 10,
-    dynamicFee: config.feePercent,
-    exitPenaltyRate: 0.20
-  });
-
-  useEffect(() => {
-    engine.current.config = config;
-  }, [config]);
-
-  // --- MATHEMATICAL HELPERS ---
-  const updateHealthMetrics = () => {
-    const state = engine.current;
-    // Liability = Sum of (Target - Collected) for everyone in queue
-    const liability = state.queue.reduce((acc, p) => acc + (p.target - p.collected), 0);
-    state.currentLiability = liability;
-
-    // Health Factor = Reserves / Liability
-    // If Liability is 0, Health is Infinite (cap at 10 for logic)
-    state.healthFactor = liability > 0 ? state.protocolBalance / liability : 10;
-
-    // Dynamic Fee Adjustment based on Health
-    // If Health < 0.2 (20% backed), increase entry fees linearly up to 15%
-    if (state.healthFactor < 0.2) {
-       state.dynamicFee = Math.min(0.15, state.config.feePercent + (0.2 - state.healthFactor) * 0.5);
-    } else {
-       state.dynamicFee = state.config.feePercent;
-    }
-  };
-
-  // --- LOGIC: EMERGENCY WITHDRAW (Dynamic Penalty) ---
-  const handleEmergencyWithdraw = (playerId: string) => {
-      const state = engine.current;
-      const index = state.queue.findIndex(p => p.id === playerId);
-      
-      if (index !== -1) {
-          const player = state.queue[index];
-          
-          // Panic Multiplier: If Health is low, Exit Penalty increases to discourage runs
-          let penaltyRate = state.exitPenaltyRate;
-          if (state.healthFactor < 0.1) penaltyRate = 0.35; // 35% penalty if system is stressed
-          
-          const penaltyAmount = player.deposit * penaltyRate;
-          const refundAmount = player.deposit - penaltyAmount;
-          
-          // Penalty goes to Protocol Reserve to sustain the system (The "Tax")
-          state.protocolBalance += penaltyAmount;
-          
-          player.collected = refundAmount;
-          player.exitReason = 'EARLY_EXIT';
-          player.netProfit = -penaltyAmount;
-          
-          // Remove from Queue and Add to Exits
-          state.queue.splice(index, 1);
-          state.exits = [player, ...state.exits].slice(0, 50);
-          state.historyCount++;
-          
-          // Recalculate Health immediately after exit (Liability drops, Reserve grows -> Health goes UP)
-          updateHealthMetrics();
-      }
+  const engine = useRef<EngineState>(createEngineState(config, { multiplier, strategy, seed }));
+  const [initialLedger] = useState(() => createLedger(engine.current));
+  const ledger = useRef<Ledger>(initialLedger);
+  const [initialChecker] = useState(() => createInvariantChecker(engine.current));
+  const invariants = useRef<InvariantChecker>(initialChecker);
+  const [initialOutcomes] = useState(() => createOutcomeTracker(engine.current));
+  const outcomes = useRef<OutcomeTracker>(initialOutcomes);
+  const [initialSeries] = useState(() => createSeriesRecorder(engine.current));
+  const series = useRef<SeriesRecorder>(initialSeries);
+
+  // Swap in a new run (reset, scenario or snapshot); the ledger, invariant checker and trackers restart from its state,
+  // except the chart, which carries on from a snapshot's saved series
+  const replaceEngine = (state: EngineState, savedSeries?: RecordedSeries) => {
+    engine.current = state;
+    ledger.current = createLedger(state);
+    invariants.current = createInvariantChecker(state);
+    outcomes.current = createOutcomeTracker(state);
+    series.current = createSeriesRecorder(state, SERIES_CAPACITY, savedSeries);
+    setSelectedRound(null);
   };
 
-  const triggerDailyDrip = () => {
-    const state = engine.current;
-    if (state.protocolBalance <= 1 || state.queue.length === 0) return;
-
-    const isLoop = strategy === DistributionStrategy.INFINITY_LOOP;
-    // Adaptive Drip: Don't drip if Health Factor is critical (< 0.05)
-    if (state.healthFactor < 0.05 && !isLoop) return;
-
-    const dripAmount = isLoop ? state.protocolBalance : state.protocolBalance * state.config.dailyDripRate;
-    state.protocolBalance -= dripAmount;
-
-    let headPool = dripAmount;
-    let reversePool = 0;
-    if (isLoop && state.queue.length > 5) {
-       reversePool = dripAmount * state.config.reverseYieldRate;
-       headPool = dripAmount - reversePool;
-    }
-    if (reversePool > 0) {
-       const tailSlice = state.queue.slice(-10);
-       if (tailSlice.length > 0) {
-          const share = reversePool / tailSlice.length;
-          tailSlice.forEach(p => p.collected += share);
-       }
-    }
-    let remaining = headPool;
-    for (const p of state.queue) {
-      if (remaining <= 0) break;
-      const needed = p.target - p.collected;
-      if (needed <= 0) continue; 
-      if (remaining >= needed) {
-        p.collected += needed; 
-        remaining -= needed;
-      } else {
-        p.collected += remaining;
-        remaining = 0;
-      }
+  // Commit an engine step and react to the events it produced
+  const applyStep = (result: EngineStep) => {
+    engine.current = result.state;
+    ledger.current.observe(result.events, result.state);
+    invariants.current.check(result.events, result.state);
+    outcomes.current.observe(result.events, result.state);
+    series.current.observe(result.events, result.state);
+    for (const event of result.events) {
+      if (event.type === 'ROUND_END') setStatus(SimulationStatus.ROUND_ENDED);
+      if (event.type === 'ROUND_START') setStatus(SimulationStatus.RUNNING);
     }
   };
 
-  const injectBot = (type: 'JACKPOT') => {
-    const state = engine.current;
-    const deposit = state.config.jackpotAmount;
-    const target = deposit * 2.0;
-    const botId = `JACKPOT_BOT_${state.historyCount}`;
-    
-    const bot: Player = {
-      id: botId,
-      deposit: deposit,
-      target: target,
-      collected: 0,
-      entryRound: state.currentRound,
-      timestamp: Date.now(),
-      slashed: false,
-      multiplier: 2.0,
-      fastFilled: false,
-      isClientDeposit: false,
-      isUnlucky: false,
-      isReinvest: false
-    };
-    state.totalDeposited += deposit;
-    state.queue.push(bot);
+  const handleFullReset = (overrides: { multiplier?: number; strategy?: DistributionStrategy; seed?: number } = {}) => {
+    setStatus(SimulationStatus.IDLE);
+    replaceEngine(createEngineState(config, {
+      multiplier: overrides.multiplier ?? multiplier,
+      strategy: overrides.strategy ?? strategy,
+      seed: overrides.seed ?? seed
+    }));
+    syncUI();
   };
 
-  const processDeposit = (amount: number, isSystem: boolean = false, isClient: boolean = false, isReinvest: boolean = false, advanceTime: boolean = true) => {
-    const state = engine.current;
-    
-    // CAP CHECK
-    if (amount > state.config.maxDepositLimit && !isSystem && !isReinvest) {
-        amount = state.config.maxDepositLimit;
-    }
-    
-    // Update Health before processing
-    updateHealthMetrics();
-
-    if (advanceTime) {
-      state.tickCount++;
-      if (state.tickCount % DAILY_DRIP_INTERVAL === 0) triggerDailyDrip();
-    }
-
-    // ROUND TIMER & TX COUNT LOGIC
-    if (!isSystem && !isReinvest) {
-        state.transactionsInCurrentRound++;
-        
-        if (state.transactionsInCurrentRound > state.config.maxTransactions) {
-             // If we somehow exceed, refund immediately or just don't accept.
-             // But for simulation, we trigger end.
-             triggerRoundEnd('CAP_REACHED');
-             return; 
-        }
-
-        const now = Date.now();
-        const extension = ROUND_EXTENSION_SECONDS * 1000;
-        const maxTime = now + (MAX_ROUND_DURATION_SECONDS * 1000);
-        let newExpiry = state.roundExpiry + extension;
-        if (newExpiry > maxTime) newExpiry = maxTime;
-        state.roundExpiry = newExpiry;
-    }
-    
-    // Fee Logic (Using Dynamic Fee)
-    let netAmount = amount;
-    if (!isSystem && !isReinvest) {
-      const fee = amount * state.dynamicFee; // Uses the adaptive fee
-      let penalty = 0;
-      if (state.config.penaltyEnabled && amount >= state.config.penaltyThreshold) {
-         penalty = amount * state.config.penaltyRate;
-      }
-      const totalFee = Math.max(1, fee + penalty); 
-      netAmount = amount - totalFee;
-      state.protocolBalance += totalFee * 0.5; 
-      state.jackpotBalance += totalFee * 0.5; 
-    }
-
-    state.totalDeposited += amount;
-
-    // Pools & Distribution
-    const yieldRatio = state.config.yieldSplit;
-    const yieldPool = netAmount * yieldRatio;
-    const headPool = netAmount * (1 - yieldRatio);
-
-    // --- MATHEMATICIAN'S MULTIPLIER LOGIC ---
-    let effectiveMultiplier = multiplier;
-    
-    if (state.config.decayStrategyEnabled) {
-        // Logistic Decay: More sustainable than linear
-        // M = Base * (1 / (1 + decay * QueueLength))
-        // Simplified: 2.0 -> decays towards 1.1 based on queue length
-        const decayFactor = state.queue.length * state.config.decayRate;
-        let decayed = 1.1 + (0.9 / (1 + decayFactor)); // Sigmoid-like dampener
-        
-        // If Health Factor is CRITICAL (< 0.1), clamp multiplier even harder
-        if (state.healthFactor < 0.1) decayed = Math.min(decayed, 1.25);
-        
-        effectiveMultiplier = Math.max(1.1, decayed);
-        state.currentAdaptiveMultiplier = effectiveMultiplier;
-    }
-
-    // Break Even Risk
-    let isUnlucky = false;
-    if (!isSystem && !isReinvest) {
-        if (Math.random() < state.config.breakEvenChance) {
-            isUnlucky = true;
-            effectiveMultiplier = 1.0; 
-        }
-    }
-
-    const playerId = isSystem ? 'PROTOCOL_SEED' : isClient ? `CLIENT_${uuidv4()}` : uuidv4();
-    if (!isSystem && !isReinvest) {
-        state.lastDepositorId = playerId;
-    }
-
-    const newPlayer: Player = {
-      id: playerId,
-      deposit: amount,
-      target: amount * effectiveMultiplier,
-      collected: 0,
-      entryRound: state.currentRound,
-      timestamp: Date.now(),
-      slashed: false,
-      multiplier: effectiveMultiplier,
-      fastFilled: false,
-      isClientDeposit: isClient,
-      isUnlucky: isUnlucky,
-      isReinvest: isReinvest
-    };
-
-    // Distribution Execution
-    if (yieldPool > 0 && state.queue.length > 0) {
-      const yieldShare = yieldPool / state.queue.length;
-      for (const p of state.queue) {
-        p.collected += yieldShare;
-      }
-    }
-
-    let remaining = headPool;
-    for (const p of state.queue) {
-      if (remaining <= 0) break;
-      const needed = p.target - p.collected;
-      if (needed <= 0) continue; 
-      if (remaining >= needed) {
-        p.collected += needed; 
-        remaining -= needed;
-      } else {
-        p.collected += remaining;
-        remaining = 0;
-      }
-    }
-
-    state.queue.push(newPlayer);
-
-    const totalUsers = state.historyCount + state.queue.length;
-    if (totalUsers > 0 && totalUsers % state.config.jackpotFrequency === 0) injectBot('JACKPOT');
-
-    // Cleanup Paid Users
-    const nextQueue: Player[] = [];
-    const recentExits: Player[] = [];
-
-    for (const p of state.queue) {
-      if (p.collected >= p.target - 0.01) {
-        p.collected = p.target;
-        const duration = state.currentRound - p.entryRound;
-        if (duration < 10) p.fastFilled = true;
-
-        const profit = p.collected - p.deposit;
-        p.netProfit = profit;
-        p.exitRound = state.currentRound;
-        p.exitReason = p.isUnlucky ? 'REFUND' : 'PAID';
-
-        if (p.id.startsWith('JACKPOT_BOT')) {
-            state.jackpotBalance += profit;
-        } else if (strategy === DistributionStrategy.INFINITY_LOOP && !p.isUnlucky && !p.id.startsWith('PROTOCOL')) {
-             const reinvestAmt = p.collected * state.config.reinvestRate;
-             if (reinvestAmt > 5) {
-                 state.pendingTransactions.push({ 
-                    amount: reinvestAmt, 
-                    isClient: p.isClientDeposit || false,
-                    isReinvest: true
-                 });
-             }
-        }
-        state.historyCount++;
-        state.historySum += p.target;
-        recentExits.push(p);
-      } else {
-        nextQueue.push(p);
-      }
-    }
-    
-    state.queue = nextQueue;
-    state.exits = [...recentExits, ...state.exits].slice(0, 50); 
-    state.currentRound++; 
-    
-    // Update chart with health metrics
-    state.chartData.push({
-      round: state.totalDeposited,
-      usersTrapped: state.queue.length,
-      requiredNewLiquidity: state.currentLiability,
-      protocolReserves: state.protocolBalance
-    });
-    if (state.chartData.length > 100) state.chartData.shift();
+  const handleSeedChange = (nextSeed: number) => {
+    const normalized = normalizeSeed(nextSeed);
+    setSeed(normalized);
+    handleFullReset({ seed: normalized });
+  };
 
-    // Check tx cap at end of processing as well to be safe
-    if (!isSystem && !isReinvest && state.transactionsInCurrentRound >= state.config.maxTransactions) {
-        triggerRoundEnd('CAP_REACHED');
-    }
+  const applyScenarioSettings = (scenario: Scenario) => {
+    setConfig(scenario.config);
+    setMultiplier(scenario.multiplier);
+    setStrategy(scenario.strategy);
+    setBehavior(scenario.behavior);
+    setSeed(scenario.seed);
+    setRunLength(scenario.ticks);
   };
 
-  const handleFullReset = () => {
+  const handleLoadScenario = (scenario: Scenario) => {
+    applyScenarioSettings(scenario);
     setStatus(SimulationStatus.IDLE);
-    engine.current = {
-      queue: [{
-        id: 'PROTOCOL_SEED',
-        deposit: INITIAL_SEED_AMOUNT,
-        target: INITIAL_SEED_AMOUNT * INITIAL_SEED_MULTIPLIER, 
-        collected: 0,
-        entryRound: 1,
-        timestamp: Date.now(),
-        slashed: false,
-        multiplier: INITIAL_SEED_MULTIPLIER,
-        isTaxTarget: false,
-        fastFilled: false,
-        isClientDeposit: false,
-        isUnlucky: false,
-        isReinvest: false
-      }],
-      exits: [],
-      historyCount: 0,
-      historySum: 0,
-      totalDeposited: INITIAL_SEED_AMOUNT,
-      protocolBalance: config.initialReserve,
-      jackpotBalance: 0,
-      currentRound: 1,
-      gameRound: 1,
-      chartData: [],
-      tickCount: 0,
-      config: config,
-      currentAdaptiveMultiplier: 2.0,
-      pendingTransactions: [],
-      roundExpiry: Date.now() + 86400000,
-      lastDepositorId: 'PROTOCOL_SEED',
-      roundHistory: [],
-      roundActive: true,
-      transactionsInCurrentRound: 0,
-      currentLiability: 0,
-      healthFactor: 10,
-      dynamicFee: config.feePercent,
-      exitPenaltyRate: 0.20
-    };
+    replaceEngine(createEngineState(scenario.config, { multiplier: scenario.multiplier, strategy: scenario.strategy, seed: scenario.seed }));
     syncUI();
   };
 
-  const startNextRound = () => {
-    const state = engine.current;
-    
-    // Logic Fix: Carry over a small seed from reserve if possible, but generally restart
-    // New Round Seed
-    state.queue = [{
-        id: 'PROTOCOL_SEED',
-        deposit: INITIAL_SEED_AMOUNT,
-        target: INITIAL_SEED_AMOUNT * INITIAL_SEED_MULTIPLIER,
-        collected: 0,
-        entryRound: state.currentRound,
-        timestamp: Date.now(),
-        slashed: false,
-        multiplier: INITIAL_SEED_MULTIPLIER,
-        fastFilled: false,
-        isClientDeposit: false,
-        isReinvest: false,
-        isUnlucky: false
-    }];
-    
-    state.gameRound++;
-    state.roundExpiry = Date.now() + (MAX_ROUND_DURATION_SECONDS * 1000);
-    state.roundActive = true;
-    state.lastDepositorId = 'PROTOCOL_SEED';
-    state.transactionsInCurrentRound = 0;
-    
-    // Reset Liabilities for chart visualization
-    state.currentLiability = 0;
-    updateHealthMetrics();
-    
-    setStatus(SimulationStatus.RUNNING);
+  const captureSnapshot = () => createSnapshot(
+    createScenario({ name: 'Snapshot', description: '', config, multiplier, strategy, behavior, seed, ticks: runLength }),
+    engine.current,
+    Date.now(),
+    series.current.save()
+  );
+
+  // Resume paused, so the restored state can be inspected before it moves on
+  const handleRestoreSnapshot = (snapshot: EngineSnapshot) => {
+    applyScenarioSettings(snapshot.scenario);
+    setStatus(snapshot.state.roundActive ? SimulationStatus.PAUSED : SimulationStatus.ROUND_ENDED);
+    replaceEngine(snapshot.state, snapshot.series);
     syncUI();
   };
 
-  const triggerRoundEnd = (reason: 'TIMER' | 'CAP_REACHED') => {
-    const state = engine.current;
-    // Prevent double triggering
-    if (status === SimulationStatus.ROUND_ENDED || !state.roundActive) return;
-
-    setStatus(SimulationStatus.ROUND_ENDED);
-    state.roundActive = false;
-    
-    // 1. Give Jackpot to Last Depositor
-    if (state.lastDepositorId) {
-        const winner = state.queue.find(p => p.id === state.lastDepositorId);
-        if (winner) {
-            const jackpotPrize = state.jackpotBalance * 0.5; 
-            winner.collected += jackpotPrize;
-            winner.exitReason = 'JACKPOT_WIN';
-            state.jackpotBalance -= jackpotPrize;
-        }
-    }
-
-    // 2. MIDNIGHT REFUND (Distribute Reserve)
-    let availableFunds = state.protocolBalance;
-    // Sort stuck users by entry order (FIFO Refund)
-    const stuckUsers = state.queue.filter(p => p.collected < p.deposit);
-
-    for (const p of stuckUsers) {
-        if (availableFunds <= 0) break;
-        const refundNeeded = p.deposit - p.collected; 
-        if (refundNeeded > 0) {
-            // Attempt to pay back up to break even
-            const payout = Math.min(availableFunds, refundNeeded);
-            p.collected += payout;
-            availableFunds -= payout;
-            
-            // If fully refunded (reached deposit), mark exits
-            if (p.collected >= p.deposit) {
-                p.exitReason = 'REFUND';
-                p.target = p.deposit;
-            }
-        }
-    }
-    state.protocolBalance = availableFunds;
-
-    // Log final state of this round
-    state.roundHistory.push({
-       roundNumber: state.gameRound,
-       finalBalance: state.protocolBalance,
-       totalVolume: state.totalDeposited,
-       winnerId: state.lastDepositorId || undefined,
-       timestamp: Date.now(),
-       reason: reason
-    });
+  const handleStartNextRound = () => {
+    applyStep(startNextRound(engine.current, config));
+    syncUI();
   };
 
   const syncUI = useCallback(() => {
     const state = engine.current;
     
-    let effectiveDisplayMultiplier = multiplier;
-    if (state.config.target100Enabled || state.config.decayStrategyEnabled) {
-        effectiveDisplayMultiplier = state.currentAdaptiveMultiplier;
-    }
+    const effectiveDisplayMultiplier = config.multiplierPolicy.policy === 'FIXED' ? state.multiplier : state.currentAdaptiveMultiplier;
 
     setUiSnapshot({
       queueSlice: state.queue.slice(0, 8),
@@ -610,19 +224,23 @@ const App: React.FC = () => {
       clientPositions: state.queue.filter(p => p.isClientDeposit),
       stats: {
         totalDeposited: state.totalDeposited,
-        totalPaidOut: state.historySum,
+        totalPaidOut: paidToUsers(state.payouts),
+        payouts: state.payouts,
         totalUsers: state.historyCount + state.queue.length,
         usersPaidExit: state.historyCount,
         usersTrapped: state.queue.length,
         currentQueueLength: state.queue.length,
         currentRound: state.gameRound,
-        strategy,
+        strategy: state.strategy,
         multiplier: effectiveDisplayMultiplier, 
         protocolBalance: state.protocolBalance,
         jackpotBalance: state.jackpotBalance,
-        target100Enabled: state.config.target100Enabled,
-        config: state.config,
-        isAutoPaused: state.tickCount >= AUTO_PAUSE_TICKS,
+        operatorBalance: state.operatorBalance,
+        writtenOffPrincipal: state.writtenOffPrincipal,
+        config,
+        seed: state.seed,
+        isAutoPaused: state.elapsedTicks >= runLength,
+        simulatedTime: state.clock,
         roundExpiry: state.roundExpiry,
         lastDepositorId: state.lastDepositorId,
         roundActive: state.roundActive,
@@ -631,10 +249,17 @@ const App: React.FC = () => {
         healthFactor: state.healthFactor,
         currentExitPenalty: state.healthFactor < 0.1 ? 0.35 : 0.20 // Visual feedback on penalty
       },
-      chartData: [...state.chartData], 
-      headPlayer: state.queue[0] || null
+      series: series.current.points(),
+      seriesStride: series.current.stride(),
+      headPlayer: state.queue[0] || null,
+      ledgerTail: ledger.current.entries().slice(-30).reverse(),
+      ledgerSize: ledger.current.entries().length,
+      funds: invariants.current.breakdown(),
+      violations: invariants.current.violations(),
+      violationCount: invariants.current.violationCount(),
+      outcomes: outcomes.current.finalize(state)
     });
-  }, [strategy, multiplier, config, status]);
+  }, [config, status, runLength]);
 
   useEffect(() => {
     const timer = setInterval(syncUI, 200); 
@@ -645,59 +270,51 @@ const App: React.FC = () => {
     if (status !== SimulationStatus.RUNNING) return;
     
     const timer = setInterval(() => {
-      // Check Round Timer
-      if (Date.now() > engine.current.roundExpiry) {
-         triggerRoundEnd('TIMER');
-         return;
-      }
-
-      if (engine.current.tickCount >= AUTO_PAUSE_TICKS) {
-        setStatus(SimulationStatus.COMPLETED);
-        return;
-      }
-      const pending = [...engine.current.pendingTransactions];
-      engine.current.pendingTransactions = []; 
-      pending.forEach(tx => processDeposit(tx.amount, false, tx.isClient, tx.isReinvest, false));
-      
-      // Simulation Bot Activity
-      if (Math.random() > 0.7) { 
-          // Regular Deposit
-          const amount = Math.floor(Math.random() * 450) + 50; 
-          processDeposit(amount, false, false, false, true); 
-
-          // Random Emergency Withdraw (Panic Simulation)
-          // Higher chance to panic if Health Factor is low
-          const panicChance = engine.current.healthFactor < 0.2 ? 0.05 : 0.01;
-          
-          if (engine.current.queue.length > 5 && Math.random() < panicChance) {
-             const eligible = engine.current.queue.filter(p => !p.id.startsWith('PROTOCOL') && !p.id.startsWith('JACKPOT') && !p.isClientDeposit);
-             if (eligible.length > 0) {
-                 const victim = eligible[Math.floor(Math.random() * eligible.length)];
-                 handleEmergencyWithdraw(victim.id);
-             }
-          }
+      // Time warp: several engine ticks per frame, stopping as soon as the round closes
+      for (let i = 0; i < timeWarp; i++) {
+        if (engine.current.elapsedTicks >= runLength) {
+          setStatus(SimulationStatus.COMPLETED);
+          return;
+        }
+        applyStep(runTick(engine.current, config, behavior));
+        if (!engine.current.roundActive) return;
       }
     }, 200); 
 
     return () => clearInterval(timer);
-  }, [status, strategy, multiplier]);
+  }, [status, config, timeWarp, behavior, runLength]);
 
   const handleManualDeposit = () => {
     if (status === SimulationStatus.ROUND_ENDED) return;
-    processDeposit(manualDepositAmount, false, false, false, true);
+    applyStep(processDeposit(engine.current, config, { amount: manualDepositAmount }));
     syncUI();
   };
 
   const handleDappDeposit = (amt: number) => {
-    processDeposit(amt, false, true, false, true); 
+    applyStep(processDeposit(engine.current, config, { amount: amt, isClient: true }));
     syncUI();
   };
 
   const handleClientWithdraw = (id: string) => {
-      handleEmergencyWithdraw(id);
+      applyStep(handleEmergencyWithdraw(engine.current, config, id));
       syncUI();
   };
 
+  const handleLedgerExport = (format: 'csv' | 'json') => {
+    const entries = ledger.current.entries();
+    const name = `ledger-seed${engine.current.seed}`;
+    if (format === 'csv') downloadText(`${name}.csv`, ledgerToCsv(entries), 'text/csv');
+    else downloadText(`${name}.json`, ledgerToJson(entries));
+  };
+
+  const handlePayoutExport = () => {
+    downloadText(`payouts-seed${engine.current.seed}.csv`, payoutsToCsv(engine.current.payouts), 'text/csv');
+  };
+
+  const handleRoundsExport = () => {
+    downloadText(`rounds-seed${engine.current.seed}.csv`, roundsToCsv(engine.current.roundHistory), 'text/csv');
+  };
+
   const handleAnalyze = async () => {
     if (!process.env.API_KEY) {
       setAnalysis("Error: API Key not found.");
@@ -717,12 +334,14 @@ const App: React.FC = () => {
     setIsAnalyzing(false);
   };
 
-  const { stats, queueSlice, exitSlice, chartData, headPlayer } = uiSnapshot;
+  const { stats, queueSlice, exitSlice, headPlayer } = uiSnapshot;
+  const selectedLog = stats.roundHistory.find(log => log.roundNumber === selectedRound);
   const totalLiability = uiSnapshot.stats.usersTrapped > 0 
      ? engine.current.currentLiability
      : 0;
   
   const dripDisplay = (stats.config.dailyDripRate * 100).toFixed(0);
+  const feeShares = splitFee(config, 1);
 
   // Helper color for health
   const healthColor = stats.healthFactor > 0.5 ? 'text-emerald-400' : stats.healthFactor > 0.2 ? 'text-yellow-400' : 'text-red-500';
@@ -746,6 +365,10 @@ const App: React.FC = () => {
                 <span className="text-emerald-500 font-bold flex items-center gap-1"><ShieldCheck className="w-3 h-3" /> Audit Passed</span>
                 <span className="text-slate-500">•</span>
                 <span className="text-slate-400 font-mono">Round {stats.currentRound}</span>
+                <span className="text-slate-500">•</span>
+                <span className="text-slate-400 font-mono">Seed {stats.seed}</span>
+                <span className="text-slate-500">•</span>
+                <span className="text-slate-400 font-mono flex items-center gap-1"><Clock className="w-3 h-3" /> {formatSimTime(stats.simulatedTime)}</span>
               </div>
             </div>
           </div>
@@ -753,6 +376,7 @@ const App: React.FC = () => {
           <div className="flex bg-slate-900/80 p-1 rounded-xl border border-slate-800 overflow-x-auto">
             <button onClick={() => setActiveTab('dapp')} className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'dapp' ? 'bg-slate-800 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}><Globe className="w-4 h-4" /> Client App</button>
             <button onClick={() => setActiveTab('simulation')} className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'simulation' ? 'bg-slate-800 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>Admin View</button>
+            <button onClick={() => setActiveTab('analysis')} className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'analysis' ? 'bg-slate-800 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}><FlaskConical className="w-4 h-4" /> Analysis</button>
             <button onClick={() => setActiveTab('contract')} className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'contract' ? 'bg-slate-800 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}><Settings className="w-4 h-4" /> Contract</button>
           </div>
         </header>
@@ -780,6 +404,10 @@ const App: React.FC = () => {
                         <div className="text-[10px] text-slate-500 mb-1 flex items-center gap-2 uppercase"><Trophy className="w-3 h-3 text-amber-500" /> Jackpot Pool</div>
                         <div className="text-xl font-mono font-bold text-amber-400">${stats.jackpotBalance.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</div>
                       </div>
+                      <div className="text-center">
+                        <div className="text-[10px] text-slate-500 mb-1 flex items-center justify-center gap-2 uppercase"><Percent className="w-3 h-3 text-rose-500" /> Operator Take</div>
+                        <div className="text-xl font-mono font-bold text-rose-400">${stats.operatorBalance.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</div>
+                      </div>
                       <div className="text-right">
                          <div className="text-[10px] text-slate-500 mb-1 flex items-center justify-end gap-2 uppercase"><TrendingUp className="w-3 h-3 text-indigo-500" /> Round Activity</div>
                          <div className="text-xl font-mono font-bold text-indigo-400">{stats.transactionsInCurrentRound} / 1000</div>
@@ -793,6 +421,7 @@ const App: React.FC = () => {
                    <button onClick={() => setSettingsTab('core')} className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider transition-all ${settingsTab === 'core' ? 'text-white border-b-2 border-emerald-500 bg-slate-800' : 'text-slate-500 hover:text-slate-300'}`}>Core</button>
                    <button onClick={() => setSettingsTab('economy')} className={`relative flex-1 py-3 text-xs font-bold uppercase tracking-wider transition-all ${settingsTab === 'economy' ? 'text-white border-b-2 border-emerald-500 bg-slate-800' : 'text-slate-500 hover:text-slate-300'}`}>Econ</button>
                    <button onClick={() => setSettingsTab('risks')} className={`relative flex-1 py-3 text-xs font-bold uppercase tracking-wider transition-all ${settingsTab === 'risks' ? 'text-white border-b-2 border-emerald-500 bg-slate-800' : 'text-slate-500 hover:text-slate-300'}`}>Penalties</button>
+                   <button onClick={() => setSettingsTab('scenario')} className={`relative flex-1 py-3 text-xs font-bold uppercase tracking-wider transition-all ${settingsTab === 'scenario' ? 'text-white border-b-2 border-emerald-500 bg-slate-800' : 'text-slate-500 hover:text-slate-300'}`}>Scenario</button>
                 </div>
 
                 <div className="p-6 overflow-y-auto custom-scrollbar flex-grow space-y-6">
@@ -800,7 +429,7 @@ const App: React.FC = () => {
                     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-300">
                        <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800">
                           <label className="flex justify-between text-xs text-slate-400 mb-2 uppercase font-bold">Initial Reserve <span className="text-emerald-400 font-mono">${config.initialReserve.toLocaleString()}</span></label>
-                          <input type="range" min="0" max="100000" step="5000" value={config.initialReserve} onChange={(e) => { const val = parseInt(e.target.value); setConfig(prev => ({...prev, initialReserve: val})); engine.current.protocolBalance = val; }} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-500" />
+                          <input type="range" min="0" max="100000" step="5000" value={config.initialReserve} onChange={(e) => { const val = parseInt(e.target.value); setConfig(prev => ({...prev, initialReserve: val})); invariants.current.addExternalFunds(val - engine.current.protocolBalance); engine.current = { ...engine.current, protocolBalance: val }; }} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-500" />
                        </div>
                        
                        <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800">
@@ -808,6 +437,46 @@ const App: React.FC = () => {
                           <input type="range" min="0" max="100" step="5" value={config.dailyDripRate * 100} onChange={(e) => setConfig({...config, dailyDripRate: parseFloat(e.target.value) / 100})} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500" />
                           <div className="text-[9px] text-slate-500 mt-1">Percentage of Reserve released daily</div>
                        </div>
+
+                       <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800">
+                          <label className="flex justify-between text-xs text-slate-400 mb-2 uppercase font-bold">Run Seed <span className="text-slate-500 font-mono normal-case">replays exactly</span></label>
+                          <div className="flex gap-2">
+                             <input type="number" min="0" value={seed} onChange={(e) => handleSeedChange(parseInt(e.target.value) || 0)} className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm font-mono text-white outline-none focus:border-emerald-500/50" />
+                             <button onClick={() => handleSeedChange(randomSeed())} title="New random seed" className="px-3 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-slate-300 transition-colors"><Shuffle className="w-4 h-4" /></button>
+                          </div>
+                          <div className="text-[9px] text-slate-500 mt-1">Changing the seed resets the run</div>
+                       </div>
+
+                       <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800">
+                          <label className="flex justify-between text-xs text-slate-400 mb-2 uppercase font-bold">Seconds per Tick <span className="text-white font-mono">{config.secondsPerTick}s</span></label>
+                          <input type="range" min="1" max="600" step="1" value={config.secondsPerTick} onChange={(e) => setConfig({...config, secondsPerTick: parseInt(e.target.value)})} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-white" />
+                          <div className="flex justify-between text-xs text-slate-400 mt-4 mb-2 uppercase font-bold">Time Warp <span className="text-white font-mono">{timeWarp}x</span></div>
+                          <div className="flex gap-2">
+                             {TIME_WARP_OPTIONS.map(option => (
+                                <button key={option} onClick={() => setTimeWarp(option)} className={`flex-1 py-1.5 rounded-lg text-xs font-mono font-bold border transition-colors ${timeWarp === option ? 'bg-emerald-600 text-white border-emerald-500' : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-slate-200'}`}>{option}x</button>
+                             ))}
+                          </div>
+                          <div className="text-[9px] text-slate-500 mt-1">{(config.secondsPerTick * timeWarp * 5 / 60).toFixed(1)} simulated minutes per real second</div>
+                       </div>
+
+                       {/* Depositor Behavior Model */}
+                       <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800 space-y-3">
+                          <label className="flex justify-between text-xs text-slate-400 uppercase font-bold items-center gap-2"><span className="flex items-center gap-2"><Users className="w-4 h-4 text-emerald-500" /> Depositor Behavior</span></label>
+                          <select value={behavior.model} onChange={(e) => setBehavior({ model: e.target.value as BehaviorModelId, params: defaultBehaviorParams(e.target.value as BehaviorModelId) })} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-emerald-500/50">
+                             {Object.values(BEHAVIOR_MODELS).map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                          </select>
+                          <div className="text-[9px] text-slate-500">{BEHAVIOR_MODELS[behavior.model].description}</div>
+                          {Object.keys(BEHAVIOR_MODELS[behavior.model].params).map(key => {
+                             const info = BEHAVIOR_MODELS[behavior.model].params[key];
+                             const value = resolveBehaviorParams(behavior)[key];
+                             return (
+                                <div key={key}>
+                                   <div className="flex justify-between text-[10px] text-slate-400"><span>{info.label}</span> <span className="text-white font-mono">{value}</span></div>
+                                   <input type="range" min={info.min} max={info.max} step={info.step} value={value} onChange={(e) => setBehavior({ ...behavior, params: { ...behavior.params, [key]: parseFloat(e.target.value) } })} className="w-full h-1 bg-slate-800 rounded accent-emerald-500" />
+                                </div>
+                             );
+                          })}
+                       </div>
                     </div>
                   )}
 
@@ -816,36 +485,98 @@ const App: React.FC = () => {
                        <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800">
                           <label className="flex justify-between text-xs text-slate-400 mb-2 uppercase font-bold">Entry Fee <span className="text-white font-mono">{(config.feePercent * 100).toFixed(1)}%</span></label>
                           <input type="range" min="0" max="20" step="0.5" value={config.feePercent * 100} onChange={(e) => setConfig({...config, feePercent: parseFloat(e.target.value) / 100})} className="w-full h-1.5 bg-slate-800 rounded-lg accent-white" />
+                          <div className="flex justify-between text-[10px] text-slate-400 mt-3"><span>Minimum fee per deposit</span> <span className="text-white font-mono">${config.minimumFee}</span></div>
+                          <input type="range" min="0" max="20" step="0.5" value={config.minimumFee} onChange={(e) => setConfig({...config, minimumFee: parseFloat(e.target.value)})} className="w-full h-1 bg-slate-800 rounded accent-white" />
                        </div>
 
-                       {/* Queue Decay Strategy */}
-                       <div className={`p-4 rounded-xl border transition-all ${config.decayStrategyEnabled ? 'bg-indigo-950/20 border-indigo-500/40' : 'bg-slate-950/50 border-slate-800'}`}>
-                          <div className="flex items-center justify-between mb-3">
-                             <div className="flex items-center gap-2">
-                                <TrendingDown className={`w-4 h-4 ${config.decayStrategyEnabled ? 'text-indigo-400' : 'text-slate-500'}`} />
-                                <span className={`text-xs font-bold uppercase ${config.decayStrategyEnabled ? 'text-indigo-400' : 'text-slate-500'}`}>Queue Decay Strategy</span>
+                       {/* Fee Routing */}
+                       <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800 space-y-3">
+                          <label className="flex justify-between text-xs text-slate-400 uppercase font-bold items-center gap-2"><span className="flex items-center gap-2"><Percent className="w-4 h-4 text-amber-500" /> Fee Routing</span></label>
+                          {FEE_ROUTES.map(({ field, label }) => (
+                             <div key={field}>
+                                <div className="flex justify-between text-[10px] text-slate-400"><span>{label}</span> <span className="text-white font-mono">{(feeShares[FEE_SPLIT_KEYS[field]] * 100).toFixed(0)}%</span></div>
+                                <input type="range" min="0" max="1" step="0.05" value={config[field]} onChange={(e) => setConfig({...config, [field]: parseFloat(e.target.value)})} className="w-full h-1 bg-slate-800 rounded accent-amber-500" />
                              </div>
-                             <button onClick={() => setConfig({...config, decayStrategyEnabled: !config.decayStrategyEnabled, target100Enabled: false})} className={`w-9 h-5 rounded-full relative transition-colors ${config.decayStrategyEnabled ? 'bg-indigo-600' : 'bg-slate-700'}`}>
-                               <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform`} style={{left: config.decayStrategyEnabled ? '20px' : '4px'}}></div>
-                             </button>
-                          </div>
-                          {config.decayStrategyEnabled && (
-                            <div className="space-y-2 pt-2 border-t border-indigo-900/30">
-                               <div className="text-[10px] text-indigo-300">ROI decreases as queue length grows. Max 2.0x.</div>
-                               <input type="range" min="0.001" max="0.05" step="0.001" value={config.decayRate} onChange={(e) => setConfig({...config, decayRate: parseFloat(e.target.value)})} className="w-full h-1 bg-slate-800 rounded accent-indigo-500" />
-                               <div className="text-[9px] text-right text-indigo-400">Decay: {config.decayRate.toFixed(3)} per user</div>
-                            </div>
-                          )}
+                          ))}
+                          <div className="text-[9px] text-slate-500">Weights for every fee and tax, shown as shares. The operator share leaves the system; the queue share is paid out with the distribution strategy.</div>
+                       </div>
+
+                       {/* Distribution Strategy */}
+                       <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800 space-y-2">
+                          <label className="flex justify-between text-xs text-slate-400 uppercase font-bold items-center gap-2"><span className="flex items-center gap-2"><ArrowRightLeft className="w-4 h-4 text-emerald-500" /> Distribution</span></label>
+                          <select value={strategy} onChange={(e) => { const val = e.target.value as DistributionStrategy; setStrategy(val); handleFullReset({ strategy: val }); }} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-emerald-500/50">
+                             {Object.values(DISTRIBUTION_STRATEGIES).map(info => <option key={info.id} value={info.id}>{info.label}</option>)}
+                          </select>
+                          <div className="text-[9px] text-slate-500">{DISTRIBUTION_STRATEGIES[strategy].description} Applies to deposits and drips; changing it resets the run.</div>
+                       </div>
+
+                       {/* Multiplier Policy */}
+                       <div className="p-4 rounded-xl border border-indigo-500/40 bg-indigo-950/20 space-y-3">
+                          <label className="flex justify-between text-xs text-indigo-400 uppercase font-bold items-center gap-2"><span className="flex items-center gap-2"><TrendingDown className="w-4 h-4" /> Multiplier Policy</span> <span className="text-white font-mono normal-case">Now {stats.multiplier.toFixed(2)}x</span></label>
+                          <select value={config.multiplierPolicy.policy} onChange={(e) => setConfig({...config, multiplierPolicy: { policy: e.target.value as MultiplierPolicyId, params: defaultMultiplierParams(e.target.value as MultiplierPolicyId) }})} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-indigo-500/50">
+                             {Object.values(MULTIPLIER_POLICIES).map(policy => <option key={policy.id} value={policy.id}>{policy.label}</option>)}
+                          </select>
+                          <div className="text-[10px] text-indigo-300">{MULTIPLIER_POLICIES[config.multiplierPolicy.policy].description}</div>
+                          {Object.keys(MULTIPLIER_POLICIES[config.multiplierPolicy.policy].params).map(key => {
+                             const info = MULTIPLIER_POLICIES[config.multiplierPolicy.policy].params[key];
+                             const value = resolveMultiplierParams(config.multiplierPolicy)[key];
+                             return (
+                                <div key={key}>
+                                   <div className="flex justify-between text-[10px] text-slate-400"><span>{info.label}</span> <span className="text-white font-mono">{value}</span></div>
+                                   <input type="range" min={info.min} max={info.max} step={info.step} value={value} onChange={(e) => setConfig({...config, multiplierPolicy: { ...config.multiplierPolicy, params: { ...config.multiplierPolicy.params, [key]: parseFloat(e.target.value) } }})} className="w-full h-1 bg-slate-800 rounded accent-indigo-500" />
+                                </div>
+                             );
+                          })}
                        </div>
 
                        {/* Fixed Multiplier - CAP MAX 2.0 */}
-                       {!config.target100Enabled && !config.decayStrategyEnabled && (
+                       {config.multiplierPolicy.policy === 'FIXED' && (
                           <div className="p-4 rounded-xl border border-slate-800 bg-slate-950/50">
                              <label className="flex justify-between text-xs text-slate-400 mb-2 uppercase font-bold">Fixed Multiplier <span className="text-white font-mono">{multiplier}x</span></label>
-                             <input type="range" min="1.1" max="2.0" step="0.1" value={multiplier} onChange={(e) => { setMultiplier(parseFloat(e.target.value)); handleFullReset(); }} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-white" />
+                             <input type="range" min="1.1" max="2.0" step="0.1" value={multiplier} onChange={(e) => { const val = parseFloat(e.target.value); setMultiplier(val); handleFullReset({ multiplier: val }); }} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-white" />
                              <div className="text-[9px] text-slate-500 mt-1">xmax 2.0 (Hard Cap)</div>
                           </div>
                        )}
+
+                       {/* Round Settlement */}
+                       <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800 space-y-3">
+                          <label className="flex justify-between text-xs text-slate-400 uppercase font-bold items-center gap-2"><span className="flex items-center gap-2"><Trophy className="w-4 h-4 text-yellow-500" /> Round Settlement</span></label>
+                          <div>
+                             <div className="flex justify-between text-[10px] text-slate-400"><span>Jackpot</span> <span className="text-white font-mono">{(config.jackpotPayoutShare * 100).toFixed(0)}% paid</span></div>
+                             <select value={config.jackpotPolicy} onChange={(e) => setConfig({...config, jackpotPolicy: e.target.value as JackpotPolicyId})} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-yellow-500/50">
+                                {Object.values(JACKPOT_POLICIES).map(policy => <option key={policy.id} value={policy.id}>{policy.label}</option>)}
+                             </select>
+                             <div className="text-[9px] text-slate-500 mt-1">{JACKPOT_POLICIES[config.jackpotPolicy].description}</div>
+                             <input type="range" min="0" max="1" step="0.05" value={config.jackpotPayoutShare} onChange={(e) => setConfig({...config, jackpotPayoutShare: parseFloat(e.target.value)})} className="w-full h-1 bg-slate-800 rounded accent-yellow-500" />
+                          </div>
+                          {config.jackpotPolicy === 'LAST_N_PRO_RATA' && (
+                             <div>
+                                <div className="flex justify-between text-[10px] text-slate-400"><span>Winners (N)</span> <span className="text-white font-mono">{config.jackpotWinnerCount}</span></div>
+                                <input type="range" min="1" max="50" step="1" value={config.jackpotWinnerCount} onChange={(e) => setConfig({...config, jackpotWinnerCount: parseInt(e.target.value)})} className="w-full h-1 bg-slate-800 rounded accent-yellow-500" />
+                             </div>
+                          )}
+                          <div>
+                             <div className="flex justify-between text-[10px] text-slate-400"><span>Midnight Refund</span></div>
+                             <select value={config.refundPolicy} onChange={(e) => setConfig({...config, refundPolicy: e.target.value as RefundPolicyId})} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-yellow-500/50">
+                                {Object.values(REFUND_POLICIES).map(policy => <option key={policy.id} value={policy.id}>{policy.label}</option>)}
+                             </select>
+                             <div className="text-[9px] text-slate-500 mt-1">{REFUND_POLICIES[config.refundPolicy].description}</div>
+                          </div>
+                          <div>
+                             <div className="flex justify-between text-[10px] text-slate-400"><span>Reserve Carry-over</span> <span className="text-white font-mono">{(config.reserveCarryOver * 100).toFixed(0)}%</span></div>
+                             <input type="range" min="0" max="1" step="0.05" value={config.reserveCarryOver} onChange={(e) => setConfig({...config, reserveCarryOver: parseFloat(e.target.value)})} className="w-full h-1 bg-slate-800 rounded accent-yellow-500" />
+                             <div className="text-[9px] text-slate-500">Share of the reserve kept out of the refund and left to seed the next round.</div>
+                          </div>
+                          <div>
+                             <div className="flex justify-between text-[10px] text-slate-400 mb-1"><span>Trapped Positions</span></div>
+                             <div className="grid grid-cols-2 gap-2">
+                                {(['CARRY_OVER', 'WRITE_OFF'] as const).map(policy => (
+                                   <button key={policy} onClick={() => setConfig({...config, trappedPolicy: policy})} className={`py-1 rounded-lg text-[10px] font-bold border transition-colors ${config.trappedPolicy === policy ? 'bg-yellow-600 text-white border-yellow-500' : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-slate-200'}`}>{policy === 'CARRY_OVER' ? 'Carry Over' : 'Write Off'}</button>
+                                ))}
+                             </div>
+                             <div className="text-[9px] text-slate-500 mt-1">{config.trappedPolicy === 'CARRY_OVER' ? 'Positions still short of target keep their place in the next round\'s queue.' : 'Positions still short of target are dropped when the next round opens and their loss is recorded.'}</div>
+                          </div>
+                       </div>
                     </div>
                   )}
 
@@ -864,7 +595,12 @@ const App: React.FC = () => {
                            </div>
                            {config.penaltyEnabled && (
                               <div className="pt-2 border-t border-orange-900/30 space-y-2">
-                                 <div className="text-[9px] text-orange-300 mb-2">Applies to deposits over threshold.</div>
+                                 <div className="grid grid-cols-2 gap-2">
+                                    {(['ENTRY', 'EXIT'] as const).map(type => (
+                                       <button key={type} onClick={() => setConfig({...config, penaltyType: type})} className={`py-1 rounded-lg text-[10px] font-bold border transition-colors ${config.penaltyType === type ? 'bg-orange-600 text-white border-orange-500' : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-slate-200'}`}>{type === 'ENTRY' ? 'On Entry' : 'On Exit'}</button>
+                                    ))}
+                                 </div>
+                                 <div className="text-[9px] text-orange-300 mb-2">{config.penaltyType === 'ENTRY' ? 'Taken from deposits over threshold.' : 'Deposits over threshold lose this cut of their payout when they reach target (slashed).'}</div>
                                  <div className="flex justify-between text-[10px]"><span>Tax Rate</span> <span className="text-white">{(config.penaltyRate * 100).toFixed(0)}%</span></div>
                                  <input type="range" min="0.01" max="0.5" step="0.01" value={config.penaltyRate} onChange={(e) => setConfig({...config, penaltyRate: parseFloat(e.target.value)})} className="w-full h-1 bg-slate-800 rounded accent-orange-500" />
                                  <div className="flex justify-between text-[10px]"><span>Threshold Amount</span> <span className="text-white">${config.penaltyThreshold}</span></div>
@@ -874,6 +610,17 @@ const App: React.FC = () => {
                         </div>
                      </div>
                   )}
+
+                  {settingsTab === 'scenario' && (
+                     <div className="space-y-6">
+                        <ScenarioPanel
+                           settings={{ config, multiplier, strategy, behavior, seed, ticks: runLength }}
+                           onLoad={handleLoadScenario}
+                           onRunLengthChange={setRunLength}
+                        />
+                        <SnapshotPanel capture={captureSnapshot} onRestore={handleRestoreSnapshot} />
+                     </div>
+                  )}
                 </div>
 
                 <div className="p-4 border-t border-slate-800 bg-slate-950">
@@ -881,7 +628,7 @@ const App: React.FC = () => {
                       <button onClick={handleManualDeposit} disabled={status === SimulationStatus.COMPLETED || status === SimulationStatus.ROUND_ENDED} className="flex-1 bg-slate-800 hover:bg-slate-700 text-white p-3 rounded-xl text-sm font-bold border border-slate-700 transition-all active:scale-95 disabled:opacity-50 flex items-center justify-center gap-2"><Settings className="w-4 h-4" /> Deposit</button>
                       <button onClick={() => status !== SimulationStatus.COMPLETED && setStatus(status === SimulationStatus.RUNNING ? SimulationStatus.PAUSED : SimulationStatus.RUNNING)} disabled={status === SimulationStatus.COMPLETED || status === SimulationStatus.ROUND_ENDED} className={`flex-1 p-3 rounded-xl text-sm font-bold border transition-all flex items-center justify-center gap-2 active:scale-95 disabled:opacity-50 ${status === SimulationStatus.RUNNING ? 'bg-amber-500/10 text-amber-500 border-amber-500/50' : 'bg-emerald-600 text-white border-emerald-500 shadow-[0_0_15px_rgba(16,185,129,0.3)]'}`}>{status === SimulationStatus.RUNNING ? <><Pause className="w-4 h-4" /> Pause</> : <><Play className="w-4 h-4" /> Auto Run</>}</button>
                    </div>
-                   <button onClick={handleFullReset} className="w-full py-2 text-[10px] text-slate-500 hover:text-red-400 uppercase tracking-widest flex items-center justify-center gap-1 transition-colors"><RefreshCw className="w-3 h-3" /> Hard Reset System</button>
+                   <button onClick={() => handleFullReset()} className="w-full py-2 text-[10px] text-slate-500 hover:text-red-400 uppercase tracking-widest flex items-center justify-center gap-1 transition-colors"><RefreshCw className="w-3 h-3" /> Hard Reset System</button>
                 </div>
               </div>
             </div>
@@ -897,7 +644,7 @@ const App: React.FC = () => {
                           <div className="flex justify-between"><span>FINAL BALANCE</span> <span className="text-white">${stats.protocolBalance.toFixed(2)}</span></div>
                           <div className="flex justify-between"><span>WINNER</span> <span className="text-white">{stats.lastDepositorId === 'PROTOCOL_SEED' ? 'PROTOCOL' : 'USER/BOT'}</span></div>
                        </div>
-                       <button onClick={startNextRound} className="w-full px-6 py-4 bg-emerald-600 hover:bg-emerald-500 rounded-xl text-base font-bold text-white shadow-[0_0_20px_rgba(16,185,129,0.3)] transition-all flex items-center justify-center gap-2">
+                       <button onClick={handleStartNextRound} className="w-full px-6 py-4 bg-emerald-600 hover:bg-emerald-500 rounded-xl text-base font-bold text-white shadow-[0_0_20px_rgba(16,185,129,0.3)] transition-all flex items-center justify-center gap-2">
                           <RefreshCw className="w-5 h-5" /> START ROUND {stats.currentRound + 1}
                        </button>
                     </div>
@@ -922,6 +669,7 @@ const App: React.FC = () => {
                    <div className="bg-slate-950 p-4 rounded-2xl border border-slate-800/50"><div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Users in Queue</div><div className="text-2xl font-mono font-bold text-white tracking-tight">{stats.usersTrapped.toLocaleString()}</div></div>
                    <div className="bg-slate-950 p-4 rounded-2xl border border-slate-800/50"><div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Exits / Total</div><div className="text-2xl font-mono font-bold text-white tracking-tight">{stats.usersPaidExit} <span className="text-sm text-slate-500 font-normal">/ {stats.totalUsers}</span></div></div>
                    <div className="bg-slate-950 p-4 rounded-2xl border border-slate-800/50 col-span-2 flex justify-between items-center"><div><div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Total Volume</div><div className="text-2xl font-mono font-bold text-emerald-400 tracking-tight">${stats.totalDeposited.toLocaleString()}</div></div><div className="text-right"><div className="text-[10px] text-slate-500 uppercase font-bold mb-1">System Debt</div><div className="text-xl font-mono font-bold text-red-400 tracking-tight">${totalLiability.toLocaleString()}</div></div></div>
+                   <PayoutBreakdownCard payouts={stats.payouts} paidToUsers={stats.totalPaidOut} onExport={handlePayoutExport} />
                  </div>
                </div>
 
@@ -946,26 +694,40 @@ const App: React.FC = () => {
                      Health: {stats.healthFactor.toFixed(2)}
                   </div>
                 </div>
-                <StatsChart data={chartData} />
+                <StatsChart data={uiSnapshot.series} stride={uiSnapshot.seriesStride} />
               </div>
 
+              <CohortPanel outcomes={uiSnapshot.outcomes} />
+
+              <WealthPanel outcomes={uiSnapshot.outcomes} />
+
                {/* Round History */}
               <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 h-[200px] flex flex-col shadow-lg">
-                 <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2"><History className="w-4 h-4 text-indigo-500" /> Round History</h2>
+                 <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2"><History className="w-4 h-4 text-indigo-500" /> Round History <span className="ml-auto font-mono normal-case tracking-normal text-rose-400">${stats.writtenOffPrincipal.toFixed(0)} written off</span>{stats.roundHistory.length > 0 && <button onClick={handleRoundsExport} className="text-[10px] text-indigo-400 hover:text-indigo-300 normal-case tracking-normal">CSV</button>}</h2>
                  <div className="flex-grow overflow-y-auto pr-2 custom-scrollbar space-y-2">
                     {stats.roundHistory.length === 0 ? <div className="text-center text-xs text-slate-600 italic py-4">No finished rounds</div> : 
                     stats.roundHistory.slice().reverse().map(log => (
-                       <div key={log.timestamp} className="flex justify-between items-center p-2 rounded bg-slate-950 border border-slate-800 text-xs">
+                       <button key={log.timestamp} onClick={() => setSelectedRound(log.roundNumber === selectedRound ? null : log.roundNumber)} className={`w-full flex justify-between items-center p-2 rounded bg-slate-950 border text-xs transition-colors ${log.roundNumber === selectedRound ? 'border-indigo-500/60' : 'border-slate-800 hover:border-slate-600'}`}>
                           <div>
                               <span className="text-slate-400 mr-2">Round {log.roundNumber}</span>
                               {log.reason === 'CAP_REACHED' && <span className="text-[9px] bg-indigo-500/20 text-indigo-300 px-1 rounded">CAP</span>}
                           </div>
+                          {log.settlement && <span className="font-mono text-amber-300">${log.settlement.refunded.toFixed(0)} {REFUND_POLICIES[log.settlement.refundPolicy].label} refund</span>}
+                          {log.accounting && (log.accounting.trappedPolicy === 'CARRY_OVER'
+                             ? <span className="font-mono text-sky-300">{log.accounting.carriedOut} carried</span>
+                             : <span className="font-mono text-rose-400">{log.accounting.writtenOff} written off</span>)}
                           <span className="font-mono text-emerald-400">${log.finalBalance.toFixed(0)} bal</span>
-                       </div>
+                       </button>
                     ))}
                  </div>
               </div>
 
+              {selectedLog && <RoundDetailPanel log={selectedLog} series={uiSnapshot.series} stride={uiSnapshot.seriesStride} onClose={() => setSelectedRound(null)} />}
+
+              <InvariantPanel breakdown={uiSnapshot.funds} violations={uiSnapshot.violations} total={uiSnapshot.violationCount} />
+
+              <LedgerPanel recent={uiSnapshot.ledgerTail} total={uiSnapshot.ledgerSize} onExport={handleLedgerExport} />
+
               {/* Users Out (Exits) */}
               <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 h-[300px] flex flex-col shadow-lg">
                  <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2"><ArrowRightLeft className="w-4 h-4 text-blue-500" /> Recent Exits (Users Out)</h2>
@@ -987,6 +749,12 @@ const App: React.FC = () => {
             </div>
 
           </div>
+        ) : activeTab === 'analysis' ? (
+          <div className="space-y-6">
+             <MonteCarloPanel config={config} multiplier={multiplier} strategy={strategy} seed={seed} behavior={behavior} />
+             <SweepPanel config={config} multiplier={multiplier} strategy={strategy} seed={seed} behavior={behavior} />
+             <ComparisonPanel config={config} multiplier={multiplier} strategy={strategy} seed={seed} behavior={behavior} />
+          </div>
         ) : activeTab === 'dapp' ? (
           <div className="flex justify-center h-[calc(100vh-150px)]">
              <UserDapp stats={stats} onDeposit={handleDappDeposit} onWithdraw={handleClientWithdraw} isProcessing={status === SimulationStatus.RUNNING} myPositions={uiSnapshot.clientPositions} />
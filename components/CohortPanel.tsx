@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Layers } from 'lucide-react';
+import { CohortWindow, OutcomeKind, PlayerOutcome } from '../types';
+import { buildCohorts, OUTCOME_KINDS } from '../engine/cohorts';
+import { formatDuration } from '../engine/clock';
+
+interface CohortPanelProps {
+  outcomes: PlayerOutcome[];
+}
+
+const OUTCOME_COLORS: Record<OutcomeKind, string> = {
+  PAID: '#10b981',
+  REFUND: '#3b82f6',
+  JACKPOT_WIN: '#eab308',
+  EARLY_EXIT: '#f97316',
+  TRAPPED: '#ef4444',
+  OPEN: '#64748b'
+};
+
+const DEFAULT_SIZES: Record<CohortWindow, number> = { DEPOSITS: 100, HOURS: 6 };
+
+export const CohortPanel: React.FC<CohortPanelProps> = ({ outcomes }) => {
+  const [cohortWindow, setCohortWindow] = useState<CohortWindow>('DEPOSITS');
+  const [size, setSize] = useState<number>(DEFAULT_SIZES.DEPOSITS);
+
+  const cohorts = buildCohorts(outcomes, cohortWindow, size);
+  const chartData = cohorts.map(c => ({ label: c.label, ...c.counts, avgNetProfit: Number(c.avgNetProfit.toFixed(2)) }));
+
+  const changeWindow = (next: CohortWindow) => {
+    setCohortWindow(next);
+    setSize(DEFAULT_SIZES[next]);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><Layers className="w-4 h-4 text-rose-500" /> Depositor Cohorts</h2>
+        <div className="flex items-center gap-1">
+          <select value={cohortWindow} onChange={(e) => changeWindow(e.target.value as CohortWindow)} className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-300 outline-none">
+            <option value="DEPOSITS">Per deposits</option>
+            <option value="HOURS">Per sim hours</option>
+          </select>
+          <input type="number" min="1" value={size} onChange={(e) => setSize(Math.max(1, parseInt(e.target.value) || 1))} className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 outline-none" />
+        </div>
+      </div>
+
+      {cohorts.length === 0 ? <div className="text-center text-xs text-slate-600 italic py-8">No depositors yet</div> : (
+        <>
+          <div className="w-full h-[220px] min-w-0">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 0, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+                <XAxis dataKey="label" stroke="#94a3b8" tick={{ fontSize: 9 }} />
+                <YAxis yAxisId="count" stroke="#94a3b8" tick={{ fontSize: 10 }} allowDecimals={false} />
+                <YAxis yAxisId="pnl" orientation="right" stroke="#f472b6" tick={{ fontSize: 10 }} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+                  itemStyle={{ color: '#e2e8f0' }}
+                  labelStyle={{ color: '#94a3b8' }}
+                />
+                <Legend wrapperStyle={{ fontSize: 9 }} />
+                {OUTCOME_KINDS.map(kind => (
+                  <Bar key={kind} yAxisId="count" dataKey={kind} stackId="outcome" fill={OUTCOME_COLORS[kind]} fillOpacity={0.7} isAnimationActive={false} />
+                ))}
+                <Line yAxisId="pnl" dataKey="avgNetProfit" name="Avg net profit ($)" stroke="#f472b6" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 max-h-[180px] overflow-y-auto pr-2 custom-scrollbar">
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-slate-500 uppercase sticky top-0 bg-slate-900">
+                <tr><th className="text-left py-1">Cohort</th><th className="text-right">Users</th><th className="text-right">Paid</th><th className="text-right">Refund</th><th className="text-right">Early</th><th className="text-right">Trapped</th><th className="text-right">Avg P&L</th><th className="text-right">Avg exit</th></tr>
+              </thead>
+              <tbody>
+                {cohorts.map(c => (
+                  <tr key={c.index} className="border-t border-slate-800 text-slate-300">
+                    <td className="py-1 text-slate-400">{c.label}</td>
+                    <td className="text-right">{c.depositors}</td>
+                    <td className="text-right text-emerald-400">{c.counts.PAID + c.counts.JACKPOT_WIN}</td>
+                    <td className="text-right text-blue-400">{c.counts.REFUND}</td>
+                    <td className="text-right text-orange-400">{c.counts.EARLY_EXIT}</td>
+                    <td className="text-right text-red-400">{c.counts.TRAPPED}{c.counts.OPEN > 0 && <span className="text-slate-500"> +{c.counts.OPEN} open</span>}</td>
+                    <td className={`text-right ${c.avgNetProfit >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>${c.avgNetProfit.toFixed(2)}</td>
+                    <td className="text-right text-slate-400">{c.avgTimeToExit === null ? '—' : formatDuration(c.avgTimeToExit)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
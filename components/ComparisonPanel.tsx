@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Columns, Download, Play, Plus, Square, X } from 'lucide-react';
+import { BehaviorSettings, ComparisonMetricId, ComparisonRun, ComparisonVariant, DistributionStrategy, MultiplierPolicyId, SeriesPoint, SimulationConfig } from '../types';
+import { COMPARISON_METRICS, COMPARISON_PRESETS, compareRuns, comparisonToCsv, runComparisonVariant } from '../engine/comparison';
+import { MULTIPLIER_POLICIES } from '../engine/multiplierPolicies';
+import { downloadText } from '../services/fileDownload';
+
+interface ComparisonPanelProps {
+  config: SimulationConfig;
+  multiplier: number;
+  strategy: DistributionStrategy;
+  seed: number;
+  behavior: BehaviorSettings;
+}
+
+type SeriesMetric = Exclude<keyof SeriesPoint, 'tick' | 'simulatedTime' | 'round' | 'totalExits'>;
+
+const SERIES_METRICS: Record<SeriesMetric, string> = {
+  liability: 'Debt Liability',
+  protocolBalance: 'Protocol Reserves',
+  jackpotBalance: 'Jackpot',
+  trappedPrincipal: 'Trapped Principal',
+  totalDeposited: 'Volume',
+  queueLength: 'Queue Length',
+  healthFactor: 'Health Factor',
+  multiplier: 'Multiplier',
+  dynamicFee: 'Entry Fee'
+};
+
+const VARIANT_COLORS = ['#94a3b8', '#f59e0b', '#10b981', '#3b82f6', '#ef4444', '#a855f7'];
+const MAX_VARIANTS = VARIANT_COLORS.length;
+
+// Config switches worth flipping between variants
+const TOGGLES: { field: 'penaltyEnabled'; label: string }[] = [
+  { field: 'penaltyEnabled', label: 'Tax' }
+];
+
+const formatMetric = (metric: ComparisonMetricId, value: number) => {
+  if (metric === 'losingShare') return `${(value * 100).toFixed(1)}%`;
+  if (metric === 'finalHealthFactor') return value.toFixed(3);
+  if (metric === 'usersPaidExit' || metric === 'usersTrapped' || metric === 'roundsCompleted') return value.toLocaleString();
+  return `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+};
+
+const deltaColor = (metric: ComparisonMetricId, delta: number) => {
+  const higherIsBetter = COMPARISON_METRICS[metric].higherIsBetter;
+  if (delta === 0 || higherIsBetter === undefined) return 'text-slate-400';
+  return (delta > 0) === higherIsBetter ? 'text-emerald-400' : 'text-red-400';
+};
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ config, multiplier, strategy, seed, behavior }) => {
+  const current = (): ComparisonVariant => ({ name: 'Current setup', config, multiplier, strategy });
+  const [variants, setVariants] = useState<ComparisonVariant[]>(() => COMPARISON_PRESETS.tax.build(current()));
+  const [ticks, setTicks] = useState<number>(5000);
+  const [runs, setRuns] = useState<ComparisonRun[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [seriesMetric, setSeriesMetric] = useState<SeriesMetric>('liability');
+  const cancelled = useRef<boolean>(false);
+
+  useEffect(() => () => { cancelled.current = true; }, []);
+
+  const updateVariant = (index: number, patch: Partial<ComparisonVariant>) =>
+    setVariants(list => list.map((v, i) => i === index ? { ...v, ...patch } : v));
+
+  const addVariant = () =>
+    setVariants(list => [...list, { ...current(), name: `Variant ${list.length + 1}` }]);
+
+  const handleRun = async () => {
+    cancelled.current = false;
+    setIsRunning(true);
+    setRuns([]);
+
+    const done: ComparisonRun[] = [];
+    for (const variant of variants) {
+      if (cancelled.current) break;
+      done.push(runComparisonVariant(variant, { ticks, seed, behavior }));
+      setRuns([...done]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    setIsRunning(false);
+  };
+
+  const rows = runs.length > 0 ? compareRuns(runs) : [];
+  // Same seed, ticks and sampling for every run, so points line up by index
+  const overlay = runs.length > 0 ? runs[0].series.map((point, i) => {
+    const row: Record<string, number> = { tick: point.tick };
+    runs.forEach((run, r) => {
+      if (run.series[i]) row[`v${r}`] = run.series[i][seriesMetric];
+    });
+    return row;
+  }) : [];
+
+  const handleExport = () => downloadText('comparison.csv', comparisonToCsv(runs, rows), 'text/csv');
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 shadow-lg">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><Columns className="w-4 h-4 text-amber-500" /> Scenario Comparison</h2>
+          <div className="text-[10px] text-slate-500 mt-1 font-mono">Every variant replays seed {seed} with {behavior.model} depositors</div>
+        </div>
+        <div className="flex items-end gap-3">
+          <label className="text-[10px] text-slate-500 uppercase font-bold">
+            Ticks / Run
+            <input type="number" min="100" max="50000" step="100" value={ticks} disabled={isRunning} onChange={(e) => setTicks(Math.max(100, parseInt(e.target.value) || 100))} className="block w-24 mt-1 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm font-mono text-white outline-none" />
+          </label>
+          {isRunning ? (
+            <button onClick={() => { cancelled.current = true; }} className="px-4 py-2 bg-amber-500/10 text-amber-500 border border-amber-500/50 rounded-lg text-xs font-bold flex items-center gap-2"><Square className="w-3 h-3" /> Stop ({runs.length}/{variants.length})</button>
+          ) : (
+            <button onClick={handleRun} disabled={variants.length < 2} className="px-4 py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white rounded-lg text-xs font-bold flex items-center gap-2 transition-all active:scale-95"><Play className="w-3 h-3" /> Compare</button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-[10px] text-slate-500 uppercase font-bold">Presets</span>
+        {Object.entries(COMPARISON_PRESETS).map(([id, preset]) => (
+          <button key={id} disabled={isRunning} onClick={() => setVariants(preset.build(current()))} className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded border border-slate-700 text-[10px] font-bold transition-colors">{preset.label}</button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        {variants.map((variant, index) => (
+          <div key={index} className="bg-slate-950/50 p-3 rounded-xl border border-slate-800 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: VARIANT_COLORS[index] }} />
+              <input type="text" value={variant.name} disabled={isRunning} onChange={(e) => updateVariant(index, { name: e.target.value })} className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none" />
+              {index === 0 ? <span className="text-[9px] text-slate-500 uppercase font-bold">Baseline</span> : (
+                <button disabled={isRunning || variants.length <= 2} onClick={() => setVariants(list => list.filter((_, i) => i !== index))} className="text-slate-500 hover:text-red-400 disabled:opacity-30"><X className="w-3 h-3" /></button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <select value={variant.strategy} disabled={isRunning} onChange={(e) => updateVariant(index, { strategy: e.target.value as DistributionStrategy })} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-300 outline-none">
+                {Object.values(DistributionStrategy).map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <input type="number" min="1" step="0.1" value={variant.multiplier} disabled={isRunning} onChange={(e) => updateVariant(index, { multiplier: Math.max(1, parseFloat(e.target.value) || 1) })} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 outline-none" />
+            </div>
+            <div className="flex gap-1">
+              <select value={variant.config.multiplierPolicy.policy} disabled={isRunning} onChange={(e) => updateVariant(index, { config: { ...variant.config, multiplierPolicy: { policy: e.target.value as MultiplierPolicyId, params: {} } } })} className="flex-[2] min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-300 outline-none">
+                {Object.values(MULTIPLIER_POLICIES).map(policy => <option key={policy.id} value={policy.id}>{policy.label}</option>)}
+              </select>
+              {TOGGLES.map(({ field, label }) => (
+                <button
+                  key={field}
+                  disabled={isRunning}
+                  onClick={() => updateVariant(index, { config: { ...variant.config, [field]: !variant.config[field] } })}
+                  className={`flex-1 py-1 rounded border text-[10px] font-bold transition-colors ${variant.config[field] ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400' : 'border-slate-700 text-slate-500'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        {variants.length < MAX_VARIANTS && (
+          <button disabled={isRunning} onClick={addVariant} className="min-h-[100px] rounded-xl border border-dashed border-slate-700 text-slate-500 hover:text-slate-300 hover:border-slate-500 text-xs font-bold flex items-center justify-center gap-2 transition-colors"><Plus className="w-4 h-4" /> Add variant</button>
+        )}
+      </div>
+
+      {runs.length === 0 ? (
+        <div className="text-center text-xs text-slate-600 italic py-12">{isRunning ? 'Running…' : 'No comparison run yet'}</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800">
+            <div className="flex items-center justify-between mb-3">
+              <div className="text-[10px] text-slate-500 uppercase font-bold">Over time</div>
+              <select value={seriesMetric} onChange={(e) => setSeriesMetric(e.target.value as SeriesMetric)} className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-300 outline-none">
+                {(Object.keys(SERIES_METRICS) as SeriesMetric[]).map(key => <option key={key} value={key}>{SERIES_METRICS[key]}</option>)}
+              </select>
+            </div>
+            <div className="w-full h-[260px] min-w-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={overlay} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+                  <XAxis dataKey="tick" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" tick={{ fontSize: 10 }} />
+                  <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} itemStyle={{ color: '#e2e8f0' }} labelStyle={{ color: '#94a3b8' }} labelFormatter={(value) => `Tick ${value}`} />
+                  <Legend wrapperStyle={{ fontSize: 10 }} />
+                  {runs.map((run, r) => (
+                    <Line key={r} type="monotone" dataKey={`v${r}`} name={run.variant.name} stroke={VARIANT_COLORS[r]} strokeWidth={r === 0 ? 2 : 1.5} strokeDasharray={r === 0 ? '4 3' : undefined} dot={false} isAnimationActive={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800">
+            <div className="flex items-center justify-between mb-3">
+              <div className="text-[10px] text-slate-500 uppercase font-bold">Final state <span className="normal-case font-normal">· bold rows moved</span></div>
+              <button onClick={handleExport} disabled={isRunning} className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded border border-slate-700 text-[10px] font-bold flex items-center gap-1 transition-colors"><Download className="w-3 h-3" /> CSV</button>
+            </div>
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="w-full text-[10px] font-mono">
+                <thead>
+                  <tr className="text-slate-500 text-left">
+                    <th className="font-normal pb-2 pr-2">Metric</th>
+                    {runs.map((run, r) => <th key={r} className="font-normal pb-2 pr-2 text-right" style={{ color: VARIANT_COLORS[r] }}>{run.variant.name}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.metric} className={`border-t border-slate-800 ${row.moved ? 'text-slate-100 font-bold' : 'text-slate-500'}`}>
+                      <td className="py-1 pr-2 font-sans">{COMPARISON_METRICS[row.metric].label}</td>
+                      {row.values.map((value, r) => (
+                        <td key={r} className="py-1 pr-2 text-right whitespace-nowrap">
+                          {formatMetric(row.metric, value)}
+                          {r > 0 && row.deltas[r] !== 0 && <span className={`ml-1 font-normal ${deltaColor(row.metric, row.deltas[r])}`}>{row.deltas[r] > 0 ? '+' : ''}{(row.deltas[r] * 100).toFixed(1)}%</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { FundsBreakdown, InvariantViolation } from '../types';
+import { describeViolation } from '../engine/invariants';
+import { formatSimTime } from '../engine/clock';
+
+interface InvariantPanelProps {
+  breakdown: FundsBreakdown;
+  violations: readonly InvariantViolation[]; // Newest first
+  total: number;
+}
+
+const money = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const InvariantPanel: React.FC<InvariantPanelProps> = ({ breakdown, violations, total }) => {
+  const ok = total === 0;
+  const held = [
+    ['In queue', breakdown.queueCollected],
+    ['Paid out', breakdown.paidOut],
+    ['Reserve', breakdown.reserve],
+    ['Jackpot', breakdown.jackpot],
+    ['Operator', breakdown.operator]
+  ] as const;
+
+  return (
+    <div className={`bg-slate-900 border rounded-3xl p-6 h-[300px] flex flex-col shadow-lg ${ok ? 'border-slate-800' : 'border-red-500/40'}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          {ok ? <ShieldCheck className="w-4 h-4 text-emerald-500" /> : <ShieldAlert className="w-4 h-4 text-red-500" />} Funds Conservation
+        </h2>
+        <span className={`text-[10px] font-bold px-2 py-0.5 rounded border ${ok ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' : 'bg-red-500/10 text-red-400 border-red-500/30'}`}>{ok ? 'BALANCED' : `${total.toLocaleString()} VIOLATIONS`}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] font-mono mb-3">
+        <div className="flex justify-between col-span-2 text-slate-300"><span>INFLOWS</span><span>{money(breakdown.inflows)}</span></div>
+        {held.map(([label, value]) => (
+          <div key={label} className="flex justify-between text-slate-500"><span>{label}</span><span className="text-slate-300">{money(value)}</span></div>
+        ))}
+        <div className={`flex justify-between col-span-2 border-t border-slate-800 pt-1 ${ok ? 'text-emerald-400' : 'text-red-400'}`}><span>DRIFT</span><span>{money(breakdown.drift)}</span></div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto pr-2 custom-scrollbar space-y-1 text-[10px]">
+        {violations.length === 0 ? <div className="text-center text-xs text-slate-600 italic py-2">Inflows match holdings after every step</div> :
+        violations.map((v, i) => (
+          <div key={`${v.tick}-${i}`} className="px-2 py-1 rounded bg-slate-950 border border-slate-800">
+            <div className="flex justify-between font-mono text-slate-500"><span>Tick {v.tick} · R{v.round} · {formatSimTime(v.simulatedTime)}</span><span className={v.delta > 0 ? 'text-amber-400' : 'text-red-400'}>{v.delta > 0 ? '+' : '-'}{money(Math.abs(v.delta))}</span></div>
+            <div className="text-slate-400 truncate">{describeViolation(v)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { BookOpen, Download } from 'lucide-react';
+import { LedgerEntry, LedgerEntryType } from '../types';
+
+interface LedgerPanelProps {
+  recent: LedgerEntry[]; // Newest first
+  total: number;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const typeColor = (type: LedgerEntryType) => {
+  if (type.includes('PAYOUT') || type === 'MIDNIGHT_REFUND' || type === 'YIELD' || type === 'REVERSE_YIELD') return 'text-emerald-400';
+  if (type.startsWith('FEE') || type.startsWith('EXIT_TAX') || type === 'EMERGENCY_PENALTY') return 'text-amber-400';
+  if (type.startsWith('EMERGENCY') || type.startsWith('ROUND')) return 'text-red-400';
+  if (type === 'EXIT') return 'text-blue-400';
+  return 'text-slate-300';
+};
+
+export const LedgerPanel: React.FC<LedgerPanelProps> = ({ recent, total, onExport }) => (
+  <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 h-[300px] flex flex-col shadow-lg">
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><BookOpen className="w-4 h-4 text-teal-500" /> Event Ledger <span className="text-slate-600 font-mono normal-case tracking-normal">{total.toLocaleString()} entries</span></h2>
+      <div className="flex gap-1">
+        {(['csv', 'json'] as const).map(format => (
+          <button key={format} onClick={() => onExport(format)} disabled={total === 0} className="text-[10px] bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 px-2 py-1 rounded border border-slate-700 font-bold uppercase flex items-center gap-1 transition-colors"><Download className="w-3 h-3" /> {format}</button>
+        ))}
+      </div>
+    </div>
+    <div className="flex-grow overflow-y-auto pr-2 custom-scrollbar space-y-1 font-mono text-[10px]">
+      {recent.length === 0 ? <div className="text-center text-xs text-slate-600 italic py-4 font-sans">No entries yet</div> :
+      recent.map(entry => (
+        <div key={entry.seq} className="grid grid-cols-[3rem_1fr_auto] gap-2 items-center px-2 py-1 rounded bg-slate-950 border border-slate-800">
+          <span className="text-slate-600">#{entry.seq}</span>
+          <span className="truncate"><span className={typeColor(entry.type)}>{entry.type}</span> <span className="text-slate-500">{entry.playerId ? entry.playerId.slice(0, 8) : entry.playerIds ? `${entry.playerIds.length} players` : ''}</span></span>
+          <span className="text-slate-200">{entry.amount !== 0 ? `$${entry.amount.toFixed(2)}` : entry.detail}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
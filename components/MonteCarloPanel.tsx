@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Dices, Play, Square } from 'lucide-react';
+import { BehaviorSettings, Distribution, DistributionStrategy, MonteCarloReport, MonteCarloTrial, SimulationConfig } from '../types';
+import { aggregateMonteCarlo, runMonteCarloTrial } from '../engine/monteCarlo';
+import { buildHistogram } from '../engine/statistics';
+
+interface MonteCarloPanelProps {
+  config: SimulationConfig;
+  multiplier: number;
+  strategy: DistributionStrategy;
+  seed: number;
+  behavior: BehaviorSettings;
+}
+
+interface HistogramChartProps {
+  title: string;
+  samples: number[];
+  distribution: Distribution;
+  format: (value: number) => string;
+  color: string;
+}
+
+const HistogramChart: React.FC<HistogramChartProps> = ({ title, samples, distribution, format, color }) => {
+  const bins = buildHistogram(samples, 15).map(bin => ({ label: format((bin.x0 + bin.x1) / 2), count: bin.count }));
+
+  return (
+    <div className="bg-slate-950/50 p-4 rounded-2xl border border-slate-800">
+      <div className="text-[10px] text-slate-500 uppercase font-bold mb-3">{title}</div>
+      <div className="w-full h-[160px] min-w-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={bins} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+            <XAxis dataKey="label" stroke="#94a3b8" tick={{ fontSize: 9 }} />
+            <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} allowDecimals={false} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+              itemStyle={{ color: '#e2e8f0' }}
+              labelStyle={{ color: '#94a3b8' }}
+            />
+            <Bar dataKey="count" name="Samples" fill={color} fillOpacity={0.6} isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="grid grid-cols-5 gap-1 mt-3 text-[10px] font-mono text-center">
+        {(['p5', 'p25', 'p50', 'p75', 'p95'] as const).map(key => (
+          <div key={key} className="bg-slate-900 rounded p-1 border border-slate-800">
+            <div className="text-slate-500 uppercase">{key}</div>
+            <div className="text-slate-200">{format(distribution[key])}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ config, multiplier, strategy, seed, behavior }) => {
+  const [runs, setRuns] = useState<number>(50);
+  const [ticks, setTicks] = useState<number>(3000);
+  const [progress, setProgress] = useState<number>(0);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [report, setReport] = useState<MonteCarloReport | null>(null);
+  const cancelled = useRef<boolean>(false);
+
+  useEffect(() => () => { cancelled.current = true; }, []);
+
+  const handleRun = async () => {
+    cancelled.current = false;
+    setIsRunning(true);
+    setReport(null);
+    const options = { runs, ticks, baseSeed: seed, multiplier, strategy, behavior };
+    const trials: MonteCarloTrial[] = [];
+
+    // One trial per macrotask keeps the page responsive during long batches
+    for (let i = 0; i < runs; i++) {
+      if (cancelled.current) break;
+      trials.push(runMonteCarloTrial(config, options, i));
+      setProgress(i + 1);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    if (trials.length > 0) setReport(aggregateMonteCarlo(trials, ticks));
+    setIsRunning(false);
+  };
+
+  const money = (v: number) => `$${v.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+  const count = (v: number) => v.toFixed(0);
+  const share = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const totalRoundEnds = report ? report.roundEndReasons.TIMER + report.roundEndReasons.CAP_REACHED : 0;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 shadow-lg">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><Dices className="w-4 h-4 text-purple-500" /> Monte Carlo</h2>
+          <div className="text-[10px] text-slate-500 mt-1 font-mono">Seeds {seed} … {seed + runs - 1} · current Admin config and behavior</div>
+        </div>
+        <div className="flex items-end gap-3">
+          <label className="text-[10px] text-slate-500 uppercase font-bold">
+            Runs
+            <input type="number" min="2" max="1000" value={runs} disabled={isRunning} onChange={(e) => setRuns(Math.max(2, parseInt(e.target.value) || 2))} className="block w-20 mt-1 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm font-mono text-white outline-none" />
+          </label>
+          <label className="text-[10px] text-slate-500 uppercase font-bold">
+            Ticks / Run
+            <input type="number" min="100" max="50000" step="100" value={ticks} disabled={isRunning} onChange={(e) => setTicks(Math.max(100, parseInt(e.target.value) || 100))} className="block w-24 mt-1 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm font-mono text-white outline-none" />
+          </label>
+          {isRunning ? (
+            <button onClick={() => { cancelled.current = true; }} className="px-4 py-2 bg-amber-500/10 text-amber-500 border border-amber-500/50 rounded-lg text-xs font-bold flex items-center gap-2"><Square className="w-3 h-3" /> Stop ({progress}/{runs})</button>
+          ) : (
+            <button onClick={handleRun} className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 transition-all active:scale-95"><Play className="w-3 h-3" /> Run Batch</button>
+          )}
+        </div>
+      </div>
+
+      {isRunning && (
+        <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mb-6">
+          <div className="h-full bg-purple-500 transition-all" style={{ width: `${(progress / runs) * 100}%` }} />
+        </div>
+      )}
+
+      {!report ? (
+        <div className="text-center text-xs text-slate-600 italic py-12">{isRunning ? 'Running…' : 'No batch run yet'}</div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <HistogramChart title="Users trapped at round end" samples={report.trials.flatMap(t => t.trappedAtRoundEnd)} distribution={report.trappedAtRoundEnd} format={count} color="#ef4444" />
+            <HistogramChart title="Final protocol balance" samples={report.trials.map(t => t.summary.protocolBalance)} distribution={report.finalProtocolBalance} format={money} color="#10b981" />
+            <HistogramChart title="Depositors with negative net profit" samples={report.trials.map(t => t.depositors > 0 ? t.losingDepositors / t.depositors : 0)} distribution={report.losingShare} format={share} color="#f59e0b" />
+          </div>
+          <div className="bg-slate-950/50 p-4 rounded-2xl border border-slate-800">
+            <div className="flex justify-between text-[10px] text-slate-500 uppercase font-bold mb-2">
+              <span>Round end reasons ({totalRoundEnds} rounds over {report.runs} runs)</span>
+              <span className="font-mono normal-case">TIMER {report.roundEndReasons.TIMER} · CAP {report.roundEndReasons.CAP_REACHED}</span>
+            </div>
+            <div className="flex h-3 rounded-full overflow-hidden bg-slate-800">
+              <div className="bg-blue-500" style={{ width: `${totalRoundEnds ? (report.roundEndReasons.TIMER / totalRoundEnds) * 100 : 0}%` }} title="TIMER" />
+              <div className="bg-indigo-400" style={{ width: `${totalRoundEnds ? (report.roundEndReasons.CAP_REACHED / totalRoundEnds) * 100 : 0}%` }} title="CAP_REACHED" />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
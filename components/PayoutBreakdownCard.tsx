@@ -0,0 +1,62 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { ParticipantClass, PayoutBreakdown, PayoutReason } from '../types';
+import { PAYOUT_REASONS, PARTICIPANT_CLASSES, totalPayouts } from '../engine/payouts';
+
+interface PayoutBreakdownCardProps {
+  payouts: PayoutBreakdown;
+  paidToUsers: number;
+  onExport: () => void;
+}
+
+const REASON_COLORS: Record<PayoutReason, string> = {
+  PAID: 'bg-emerald-500',
+  REFUND: 'bg-blue-500',
+  SLASHED: 'bg-red-500',
+  JACKPOT_WIN: 'bg-yellow-500',
+  EARLY_EXIT: 'bg-orange-500',
+  WRITE_OFF: 'bg-slate-500'
+};
+
+const CLASS_LABELS: Record<ParticipantClass, string> = {
+  ORGANIC: 'Organic',
+  CLIENT: 'dApp client',
+  REINVEST: 'Reinvest',
+  JACKPOT_BOT: 'Jackpot bot',
+  PROTOCOL_SEED: 'Protocol seed'
+};
+
+const money = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+export const PayoutBreakdownCard: React.FC<PayoutBreakdownCardProps> = ({ payouts, paidToUsers, onExport }) => {
+  const total = totalPayouts(payouts);
+
+  return (
+    <div className="bg-slate-950 p-4 rounded-2xl border border-slate-800/50 col-span-2">
+      <div className="flex justify-between items-start mb-2">
+        <div>
+          <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Paid to Users</div>
+          <div className="text-2xl font-mono font-bold text-white tracking-tight">{money(paidToUsers)} <span className="text-sm text-slate-500 font-normal">of {money(total)} settled</span></div>
+        </div>
+        <button onClick={onExport} disabled={total === 0} title="Export payout breakdown" className="text-[10px] bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 px-2 py-1 rounded border border-slate-700 font-bold uppercase flex items-center gap-1 transition-colors"><Download className="w-3 h-3" /> CSV</button>
+      </div>
+
+      <div className="flex h-2 rounded-full overflow-hidden bg-slate-800 mb-2">
+        {total > 0 && PAYOUT_REASONS.map(reason => (
+          <div key={reason} className={REASON_COLORS[reason]} style={{ width: `${(payouts.byReason[reason] / total) * 100}%` }} title={`${reason}: ${money(payouts.byReason[reason])}`} />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[9px] font-mono text-slate-500 mb-3">
+        {PAYOUT_REASONS.map(reason => (
+          <span key={reason} className="flex items-center gap-1"><span className={`w-1.5 h-1.5 rounded-full ${REASON_COLORS[reason]}`} />{reason} {money(payouts.byReason[reason])}</span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-[10px] font-mono">
+        {PARTICIPANT_CLASSES.map(c => (
+          <div key={c} className="flex justify-between text-slate-500"><span>{CLASS_LABELS[c]}</span><span className="text-slate-300">{money(payouts.byClass[c])}</span></div>
+        ))}
+      </div>
+    </div>
+  );
+};
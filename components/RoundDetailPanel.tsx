@@ -0,0 +1,69 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { RoundLog, SeriesPoint } from '../types';
+import { formatSimTime } from '../engine/clock';
+import { roundSeries } from '../engine/rounds';
+import { JACKPOT_POLICIES, REFUND_POLICIES } from '../engine/settlement';
+import { StatsChart } from './StatsChart';
+
+interface RoundDetailPanelProps {
+  log: RoundLog;
+  series: SeriesPoint[]; // The whole run; only this round's points are drawn
+  stride?: number;
+  onClose: () => void;
+}
+
+const money = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+export const RoundDetailPanel: React.FC<RoundDetailPanelProps> = ({ log, series, stride, onClose }) => {
+  const { settlement, accounting } = log;
+  const points = roundSeries(series, log.roundNumber);
+  // Logs saved before per-round detail only have the balance
+  const figures: [string, string | null][] = [
+    ['Volume', accounting ? money(accounting.deposited) : null],
+    ['Transactions', accounting ? accounting.transactions.toLocaleString() : null],
+    ['Jackpot paid', settlement ? money(settlement.jackpotPaid) : null],
+    ['Refunds paid', settlement ? money(settlement.refunded) : null],
+    ['Below break-even', settlement ? settlement.leftBelowBreakEven.toLocaleString() : null],
+    ['Trapped principal', settlement ? money(settlement.trappedPrincipal) : null],
+    ['Peak liability', accounting ? money(accounting.peakLiability) : null],
+    ['Final reserve', money(log.finalBalance)]
+  ];
+
+  return (
+    <div className="bg-slate-900 border border-indigo-500/40 rounded-3xl p-6 shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <History className="w-4 h-4 text-indigo-500" /> Round {log.roundNumber}
+          <span className="font-mono normal-case tracking-normal text-slate-500">{log.startTime !== undefined && `${formatSimTime(log.startTime)} → `}{formatSimTime(log.timestamp)} · {log.reason === 'CAP_REACHED' ? 'tx cap' : 'timer'}</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-300"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {figures.map(([label, value]) => (
+          <div key={label} className="bg-slate-950/50 p-2 rounded-lg border border-slate-800">
+            <div className="text-[9px] text-slate-500 uppercase">{label}</div>
+            <div className="text-sm font-mono font-bold text-slate-200">{value ?? '—'}</div>
+          </div>
+        ))}
+      </div>
+
+      {settlement && (
+        <div className="text-[10px] text-slate-500 space-y-1">
+          <div>Jackpot: {JACKPOT_POLICIES[settlement.jackpotPolicy].label} · {settlement.jackpotWinners.length > 0 ? settlement.jackpotWinners.join(', ') : 'no winner'}</div>
+          <div>Refund: {REFUND_POLICIES[settlement.refundPolicy].label} · {settlement.usersRefunded} of {settlement.stuckUsers} stuck positions made whole from a {money(settlement.refundBudget)} budget</div>
+          {accounting && (
+            <div>
+              Carried in {accounting.carriedIn} ({money(accounting.carriedInLiability)} owed) · {accounting.trappedPolicy === 'CARRY_OVER'
+                ? `carried out ${accounting.carriedOut} (${money(accounting.carriedOutLiability)} owed)`
+                : `wrote off ${accounting.writtenOff} (${money(accounting.writtenOffPrincipal)} principal)`}
+            </div>
+          )}
+        </div>
+      )}
+
+      {points.length > 1 ? <StatsChart data={points} stride={stride} /> : <div className="text-center text-xs text-slate-600 italic py-4">Too few points recorded for this round</div>}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileJson, Upload } from 'lucide-react';
+import { Scenario } from '../types';
+import { createScenario, parseScenario, scenarioFileName, serializeScenario } from '../engine/scenario';
+import { REFERENCE_SCENARIOS } from '../engine/referenceScenarios';
+import { downloadText } from '../services/fileDownload';
+
+interface ScenarioPanelProps {
+  settings: Omit<Scenario, 'version' | 'name' | 'description'>; // The live Admin setup
+  onLoad: (scenario: Scenario) => void;
+  onRunLengthChange: (ticks: number) => void;
+}
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ settings, onLoad, onRunLengthChange }) => {
+  const [name, setName] = useState<string>('My scenario');
+  const [description, setDescription] = useState<string>('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = (scenario: Scenario) => {
+    setName(scenario.name);
+    setDescription(scenario.description);
+    setMessage({ text: `Loaded "${scenario.name}"`, isError: false });
+    onLoad(scenario);
+  };
+
+  const handleExport = () => {
+    const scenario = createScenario({ name, description, ...settings });
+    downloadText(scenarioFileName(scenario), serializeScenario(scenario));
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      load(parseScenario(await file.text()));
+    } catch (error) {
+      setMessage({ text: `${file.name}: ${(error as Error).message}`, isError: true });
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800 space-y-3">
+        <label className="flex justify-between text-xs text-slate-400 uppercase font-bold items-center gap-2"><span className="flex items-center gap-2"><FileJson className="w-4 h-4 text-emerald-500" /> Current Setup</span></label>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Scenario name" className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-emerald-500/50" />
+        <textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What is this setup meant to show?" rows={2} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-300 outline-none focus:border-emerald-500/50 resize-none" />
+        <div>
+          <label className="flex justify-between text-[10px] text-slate-400 uppercase font-bold mb-1">Run Length <span className="text-slate-500 font-mono normal-case">ticks before auto-run stops</span></label>
+          <input type="number" min="1" step="1000" value={settings.ticks} onChange={(e) => onRunLengthChange(Math.max(1, parseInt(e.target.value) || 1))} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm font-mono text-white outline-none focus:border-emerald-500/50" />
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleExport} className="flex-1 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all active:scale-95"><Download className="w-3 h-3" /> Export</button>
+          <button onClick={() => fileInput.current?.click()} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg border border-slate-700 text-xs font-bold flex items-center justify-center gap-2 transition-all active:scale-95"><Upload className="w-3 h-3" /> Import</button>
+          <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+        </div>
+        {message && <div className={`text-[10px] ${message.isError ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</div>}
+        <div className="text-[9px] text-slate-500">Loading a scenario replaces every setting and resets the run</div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-[10px] text-slate-500 uppercase font-bold">Reference Scenarios</div>
+        {Object.entries(REFERENCE_SCENARIOS).map(([id, scenario]) => (
+          <button key={id} onClick={() => load(scenario)} className="w-full text-left bg-slate-950/50 hover:bg-slate-800/60 p-3 rounded-xl border border-slate-800 transition-colors">
+            <div className="flex justify-between text-xs font-bold text-slate-200">{scenario.name} <span className="text-slate-500 font-mono font-normal">{id}</span></div>
+            <div className="text-[10px] text-slate-500 mt-1">{scenario.description}</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { Archive, Download, HardDrive, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { EngineSnapshot } from '../types';
+import { parseSnapshot, serializeSnapshot, snapshotFileName } from '../engine/snapshot';
+import { formatSimTime } from '../engine/clock';
+import { downloadText } from '../services/fileDownload';
+import { clearStoredSnapshot, loadSnapshotFromStorage, saveSnapshotToStorage } from '../services/snapshotStorage';
+
+interface SnapshotPanelProps {
+  capture: () => EngineSnapshot; // Snapshot of the run as it is right now
+  onRestore: (snapshot: EngineSnapshot) => void;
+}
+
+const readStored = (): { snapshot: EngineSnapshot | null; error: string | null } => {
+  try {
+    return { snapshot: loadSnapshotFromStorage(), error: null };
+  } catch (error) {
+    return { snapshot: null, error: `Stored snapshot is unreadable: ${(error as Error).message}` };
+  }
+};
+
+const describe = (snapshot: EngineSnapshot) =>
+  `Round ${snapshot.state.gameRound} · ${formatSimTime(snapshot.state.clock)} · seed ${snapshot.state.seed}`;
+
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ capture, onRestore }) => {
+  const [initial] = useState(readStored);
+  const [stored, setStored] = useState<EngineSnapshot | null>(initial.snapshot);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(initial.error ? { text: initial.error, isError: true } : null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const restore = (snapshot: EngineSnapshot) => {
+    onRestore(snapshot);
+    setMessage({ text: `Restored ${describe(snapshot)}`, isError: false });
+  };
+
+  const handleSave = () => {
+    const snapshot = capture();
+    try {
+      saveSnapshotToStorage(snapshot);
+      setStored(snapshot);
+      setMessage({ text: 'Saved to this browser', isError: false });
+    } catch (error) {
+      setMessage({ text: `${(error as Error).message}. Download it instead.`, isError: true });
+    }
+  };
+
+  const handleDelete = () => {
+    clearStoredSnapshot();
+    setStored(null);
+    setMessage(null);
+  };
+
+  const handleDownload = () => {
+    const snapshot = capture();
+    downloadText(snapshotFileName(snapshot), serializeSnapshot(snapshot));
+  };
+
+  const handleOpen = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      restore(parseSnapshot(await file.text()));
+    } catch (error) {
+      setMessage({ text: `${file.name}: ${(error as Error).message}`, isError: true });
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-800 space-y-3">
+      <label className="flex justify-between text-xs text-slate-400 uppercase font-bold items-center gap-2"><span className="flex items-center gap-2"><Archive className="w-4 h-4 text-amber-500" /> Run Snapshot</span></label>
+      <div className="text-[9px] text-slate-500">Saves the whole engine state plus its settings. Restoring resumes exactly where the run left off, mid-round included.</div>
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+        <div className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1 mb-1"><HardDrive className="w-3 h-3" /> In this browser</div>
+        {stored ? (
+          <>
+            <div className="text-xs font-mono text-slate-200">{describe(stored)}</div>
+            <div className="text-[10px] text-slate-500">Saved {new Date(stored.savedAt).toLocaleString()}</div>
+            <div className="flex gap-2 mt-2">
+              <button onClick={() => restore(stored)} className="flex-1 py-1.5 bg-amber-500/10 text-amber-400 border border-amber-500/40 hover:bg-amber-500/20 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all active:scale-95"><RotateCcw className="w-3 h-3" /> Restore</button>
+              <button onClick={handleDelete} title="Delete stored snapshot" className="px-3 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-slate-400 hover:text-red-400 transition-colors"><Trash2 className="w-3 h-3" /></button>
+            </div>
+          </>
+        ) : (
+          <div className="text-[10px] text-slate-600 italic">Nothing saved yet</div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={handleSave} className="flex-1 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all active:scale-95"><HardDrive className="w-3 h-3" /> Save</button>
+        <button onClick={handleDownload} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg border border-slate-700 text-xs font-bold flex items-center justify-center gap-2 transition-all active:scale-95"><Download className="w-3 h-3" /> File</button>
+        <button onClick={() => fileInput.current?.click()} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg border border-slate-700 text-xs font-bold flex items-center justify-center gap-2 transition-all active:scale-95"><Upload className="w-3 h-3" /> Open</button>
+        <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={(e) => handleOpen(e.target.files?.[0])} />
+      </div>
+      {message && <div className={`text-[10px] ${message.isError ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</div>}
+    </div>
+  );
+};
@@ -1,64 +1,130 @@
-
-import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { ChartDataPoint } from '../types';
+import React, { useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush } from 'recharts';
+import { SeriesPoint } from '../types';
+import { exitRates } from '../engine/series';
+import { formatSimTime } from '../engine/clock';
 
 interface StatsChartProps {
-  data: ChartDataPoint[];
+  data: SeriesPoint[];
+  stride?: number; // Engine steps per recorded point, shown once the run has been downsampled
 }
 
-export const StatsChart: React.FC<StatsChartProps> = ({ data }) => {
+type MetricKey = 'liability' | 'protocolBalance' | 'jackpotBalance' | 'trappedPrincipal' | 'queueLength' | 'healthFactor' | 'multiplier' | 'dynamicFee' | 'exitsPerTick';
+type AxisKey = 'tick' | 'simulatedTime' | 'totalDeposited';
+
+interface MetricSpec {
+  label: string;
+  color: string;
+  money: boolean; // Money metrics share the left axis and draw as areas
+  format: (value: number) => string;
+}
+
+const money = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+const METRICS: Record<MetricKey, MetricSpec> = {
+  liability: { label: 'Debt Liability', color: '#ef4444', money: true, format: money },
+  protocolBalance: { label: 'Protocol Reserves', color: '#10b981', money: true, format: money },
+  jackpotBalance: { label: 'Jackpot', color: '#eab308', money: true, format: money },
+  trappedPrincipal: { label: 'Trapped Principal', color: '#f97316', money: true, format: money },
+  queueLength: { label: 'Queue Length', color: '#3b82f6', money: false, format: v => v.toFixed(0) },
+  healthFactor: { label: 'Health Factor', color: '#22d3ee', money: false, format: v => v.toFixed(3) },
+  multiplier: { label: 'Multiplier', color: '#a855f7', money: false, format: v => `${v.toFixed(2)}x` },
+  dynamicFee: { label: 'Entry Fee', color: '#f472b6', money: false, format: v => `${(v * 100).toFixed(1)}%` },
+  exitsPerTick: { label: 'Exits / Tick', color: '#84cc16', money: false, format: v => v.toFixed(2) }
+};
+
+const AXES: Record<AxisKey, { label: string; format: (value: number) => string }> = {
+  tick: { label: 'Tick', format: v => v.toLocaleString() },
+  simulatedTime: { label: 'Sim time', format: formatSimTime },
+  totalDeposited: { label: 'Volume', format: money }
+};
+
+const DEFAULT_METRICS: MetricKey[] = ['liability', 'protocolBalance'];
+
+export const StatsChart: React.FC<StatsChartProps> = ({ data, stride = 1 }) => {
+  const [metrics, setMetrics] = useState<MetricKey[]>(DEFAULT_METRICS);
+  const [axis, setAxis] = useState<AxisKey>('tick');
+  // Zoom is kept in x values so it survives downsampling; a null end follows the live edge
+  const [zoom, setZoom] = useState<{ from: number; to: number | null } | null>(null);
+
+  const rates = exitRates(data);
+  const rows = data.map((p, i) => ({ ...p, exitsPerTick: rates[i] }));
+
+  const lastIndex = Math.max(0, rows.length - 1);
+  const startIndex = zoom ? Math.max(0, rows.findIndex(r => r[axis] >= zoom.from)) : 0;
+  const zoomEnd = zoom && zoom.to !== null ? rows.findIndex(r => r[axis] >= (zoom.to as number)) : -1;
+  const endIndex = zoomEnd < 0 ? lastIndex : Math.max(startIndex, zoomEnd);
+
+  const handleBrush = (range: { startIndex?: number; endIndex?: number }) => {
+    const start = range.startIndex ?? 0;
+    const end = range.endIndex ?? lastIndex;
+    if (start === 0 && end >= lastIndex) setZoom(null);
+    else setZoom({ from: rows[start][axis], to: end >= lastIndex ? null : rows[end][axis] });
+  };
+
+  const toggleMetric = (key: MetricKey) =>
+    setMetrics(current => current.includes(key) ? current.filter(k => k !== key) : [...current, key]);
+
+  const changeAxis = (next: AxisKey) => {
+    setAxis(next);
+    setZoom(null);
+  };
+
+  const hasMoney = metrics.some(k => METRICS[k].money);
+  const hasRatio = metrics.some(k => !METRICS[k].money);
+
   return (
-    <div className="w-full h-[250px] min-w-0">
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart
-          data={data}
-          margin={{
-            top: 10,
-            right: 30,
-            left: 0,
-            bottom: 0,
-          }}
-        >
-          <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
-          <XAxis 
-            dataKey="round" 
-            stroke="#94a3b8" 
-            tick={{fontSize: 12}}
-            label={{ value: 'Deposits (Time)', position: 'insideBottomRight', offset: -5, fill: '#64748b', fontSize: 10 }} 
-          />
-          <YAxis 
-            stroke="#94a3b8" 
-            tick={{fontSize: 12}}
-            label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft', fill: '#64748b', fontSize: 10 }}
-          />
-          <Tooltip 
-            contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
-            itemStyle={{ color: '#e2e8f0' }}
-            labelStyle={{ color: '#94a3b8' }}
-          />
-          <Area 
-            type="monotone" 
-            dataKey="requiredNewLiquidity" 
-            name="Debt Liability" 
-            stackId="1" 
-            stroke="#ef4444" 
-            fill="#ef4444" 
-            fillOpacity={0.2} 
-            isAnimationActive={false}
-          />
-          <Area 
-            type="monotone" 
-            dataKey="protocolReserves" 
-            name="Protocol Reserves" 
-            stackId="2" 
-            stroke="#10b981" 
-            fill="#10b981" 
-            fillOpacity={0.3} 
-            isAnimationActive={false}
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(METRICS) as MetricKey[]).map(key => (
+          <button
+            key={key}
+            onClick={() => toggleMetric(key)}
+            className={`px-2 py-0.5 rounded border text-[10px] font-bold transition-colors ${metrics.includes(key) ? 'border-slate-600 bg-slate-800 text-slate-200' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+          >
+            <span className="inline-block w-1.5 h-1.5 rounded-full mr-1" style={{ backgroundColor: METRICS[key].color }} />{METRICS[key].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] text-slate-500">
+        <div className="flex items-center gap-1">
+          X
+          <select value={axis} onChange={(e) => changeAxis(e.target.value as AxisKey)} className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-300 outline-none">
+            {(Object.keys(AXES) as AxisKey[]).map(key => <option key={key} value={key}>{AXES[key].label}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-2 font-mono">
+          {stride > 1 && <span>1 point / {stride} steps</span>}
+          {zoom && <button onClick={() => setZoom(null)} className="text-indigo-400 hover:text-indigo-300 font-sans font-bold">Reset zoom</button>}
+        </div>
+      </div>
+
+      <div className="w-full h-[250px] min-w-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows} margin={{ top: 10, right: 0, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+            <XAxis dataKey={axis} type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" tick={{ fontSize: 10 }} tickFormatter={AXES[axis].format} />
+            <YAxis yAxisId="money" hide={!hasMoney} stroke="#94a3b8" tick={{ fontSize: 10 }} tickFormatter={money} />
+            <YAxis yAxisId="ratio" orientation="right" hide={!hasRatio} stroke="#94a3b8" tick={{ fontSize: 10 }} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+              itemStyle={{ color: '#e2e8f0' }}
+              labelStyle={{ color: '#94a3b8' }}
+              labelFormatter={(value) => AXES[axis].format(Number(value))}
+              formatter={(value, name, item) => [METRICS[item.dataKey as MetricKey].format(Number(value)), name]}
+            />
+            {metrics.map(key => METRICS[key].money ? (
+              <Area key={key} yAxisId="money" type="monotone" dataKey={key} name={METRICS[key].label} stroke={METRICS[key].color} fill={METRICS[key].color} fillOpacity={0.2} isAnimationActive={false} />
+            ) : (
+              <Line key={key} yAxisId="ratio" type="monotone" dataKey={key} name={METRICS[key].label} stroke={METRICS[key].color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            ))}
+            {rows.length > 2 && (
+              <Brush dataKey={axis} height={18} stroke="#475569" fill="#0f172a" travellerWidth={6} startIndex={startIndex} endIndex={endIndex} tickFormatter={AXES[axis].format} onChange={handleBrush} />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Grid3x3, Play, Square } from 'lucide-react';
+import { BehaviorSettings, DistributionStrategy, SimulationConfig, SweepAxis, SweepCell, SweepField, SweepMetricId } from '../types';
+import { SWEEP_METRICS, axisValues, runSweepCell, sweepFields, sweepGrid, SweepFieldInfo, SweepOptions } from '../engine/sweep';
+
+interface SweepPanelProps {
+  config: SimulationConfig;
+  multiplier: number;
+  strategy: DistributionStrategy;
+  seed: number;
+  behavior: BehaviorSettings;
+}
+
+type SweepFields = Partial<Record<SweepField, SweepFieldInfo>>;
+
+const defaultAxis = (field: SweepField, fields: SweepFields): SweepAxis => {
+  const info = fields[field]!;
+  return { field, from: info.min, to: info.max, steps: 5 };
+};
+
+// Decay is only on offer while a policy with a decay rate is active
+const defaultYField = (fields: SweepFields): SweepField =>
+  'multiplierPolicy.params.decayRate' in fields ? 'multiplierPolicy.params.decayRate' : 'dailyDripRate';
+
+const formatAxisValue = (fields: SweepFields, field: SweepField, value: number) =>
+  fields[field]?.integer ? value.toLocaleString() : value.toFixed(3);
+
+const formatMetric = (metric: SweepMetricId, value: number) => {
+  if (metric === 'losingShare') return `${(value * 100).toFixed(0)}%`;
+  if (metric === 'healthAtRoundEnd') return value.toFixed(2);
+  if (metric === 'trappedAtRoundEnd') return value.toFixed(0);
+  return `$${(value / 1000).toFixed(1)}k`;
+};
+
+// Red = bad, green = good, relative to the range present in this sweep
+const cellColor = (t: number, higherIsBetter: boolean) => {
+  const goodness = higherIsBetter ? t : 1 - t;
+  return `hsla(${Math.round(goodness * 140)}, 70%, 40%, 0.85)`;
+};
+
+interface AxisEditorProps {
+  label: string;
+  axis: SweepAxis;
+  fields: SweepFields;
+  disabled: boolean;
+  onChange: (axis: SweepAxis) => void;
+}
+
+const AxisEditor: React.FC<AxisEditorProps> = ({ label, axis, fields, disabled, onChange }) => (
+  <div className="bg-slate-950/50 p-3 rounded-xl border border-slate-800 space-y-2">
+    <div className="text-[10px] text-slate-500 uppercase font-bold">{label}</div>
+    <select value={axis.field} disabled={disabled} onChange={(e) => onChange(defaultAxis(e.target.value as SweepField, fields))} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white outline-none">
+      {(Object.keys(fields) as SweepField[]).map(id => <option key={id} value={id}>{fields[id]!.label}</option>)}
+    </select>
+    <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-500 uppercase">
+      <label>From<input type="number" step="any" value={axis.from} disabled={disabled} onChange={(e) => onChange({ ...axis, from: parseFloat(e.target.value) || 0 })} className="block w-full mt-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-white outline-none" /></label>
+      <label>To<input type="number" step="any" value={axis.to} disabled={disabled} onChange={(e) => onChange({ ...axis, to: parseFloat(e.target.value) || 0 })} className="block w-full mt-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-white outline-none" /></label>
+      <label>Steps<input type="number" min="1" max="15" value={axis.steps} disabled={disabled} onChange={(e) => onChange({ ...axis, steps: Math.min(15, Math.max(1, parseInt(e.target.value) || 1)) })} className="block w-full mt-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-white outline-none" /></label>
+    </div>
+  </div>
+);
+
+export const SweepPanel: React.FC<SweepPanelProps> = ({ config, multiplier, strategy, seed, behavior }) => {
+  const fields = sweepFields(config);
+  const [xAxis, setXAxis] = useState<SweepAxis>(defaultAxis('feePercent', fields));
+  const [yAxis, setYAxis] = useState<SweepAxis>(defaultAxis(defaultYField(fields), fields));
+  const [useYAxis, setUseYAxis] = useState<boolean>(true);
+  const [metric, setMetric] = useState<SweepMetricId>('losingShare');
+  const [runsPerCell, setRunsPerCell] = useState<number>(3);
+  const [ticks, setTicks] = useState<number>(2000);
+  const [cells, setCells] = useState<SweepCell[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [grid, setGrid] = useState<{ xAxis: SweepAxis; yAxis: SweepAxis | null; fields: SweepFields } | null>(null);
+  const cancelled = useRef<boolean>(false);
+
+  useEffect(() => () => { cancelled.current = true; }, []);
+
+  // A policy switch takes its settings out of the field list
+  useEffect(() => {
+    if (!(xAxis.field in fields)) setXAxis(defaultAxis('feePercent', fields));
+    if (!(yAxis.field in fields)) setYAxis(defaultAxis(defaultYField(fields), fields));
+  }, [config.multiplierPolicy.policy]);
+
+  const handleRun = async () => {
+    const options: SweepOptions = { xAxis, yAxis: useYAxis ? yAxis : null, runsPerCell, ticks, baseSeed: seed, multiplier, strategy, behavior };
+    const points = sweepGrid(config, options);
+    cancelled.current = false;
+    setIsRunning(true);
+    setGrid({ xAxis: options.xAxis, yAxis: options.yAxis ?? null, fields });
+    setTotal(points.length);
+    setCells([]);
+
+    const done: SweepCell[] = [];
+    for (const { x, y } of points) {
+      if (cancelled.current) break;
+      done.push(runSweepCell(config, options, x, y));
+      setCells([...done]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    setIsRunning(false);
+  };
+
+  const metricInfo = SWEEP_METRICS[metric];
+  const values = cells.map(c => c.metrics[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const xs = grid ? axisValues(grid.xAxis, grid.fields) : [];
+  const ys = grid?.yAxis ? axisValues(grid.yAxis, grid.fields) : [null];
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 shadow-lg">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><Grid3x3 className="w-4 h-4 text-cyan-500" /> Parameter Sweep</h2>
+          <div className="text-[10px] text-slate-500 mt-1 font-mono">Every cell replays seeds {seed} … {seed + runsPerCell - 1}</div>
+        </div>
+        <div className="flex items-end gap-3">
+          <label className="text-[10px] text-slate-500 uppercase font-bold">
+            Runs / Cell
+            <input type="number" min="1" max="50" value={runsPerCell} disabled={isRunning} onChange={(e) => setRunsPerCell(Math.max(1, parseInt(e.target.value) || 1))} className="block w-20 mt-1 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm font-mono text-white outline-none" />
+          </label>
+          <label className="text-[10px] text-slate-500 uppercase font-bold">
+            Ticks / Run
+            <input type="number" min="100" max="50000" step="100" value={ticks} disabled={isRunning} onChange={(e) => setTicks(Math.max(100, parseInt(e.target.value) || 100))} className="block w-24 mt-1 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm font-mono text-white outline-none" />
+          </label>
+          {isRunning ? (
+            <button onClick={() => { cancelled.current = true; }} className="px-4 py-2 bg-amber-500/10 text-amber-500 border border-amber-500/50 rounded-lg text-xs font-bold flex items-center gap-2"><Square className="w-3 h-3" /> Stop ({cells.length}/{total})</button>
+          ) : (
+            <button onClick={handleRun} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 transition-all active:scale-95"><Play className="w-3 h-3" /> Run Sweep</button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <AxisEditor label="X Axis" axis={xAxis} fields={fields} disabled={isRunning} onChange={setXAxis} />
+        <div className="relative">
+          <AxisEditor label="Y Axis" axis={yAxis} fields={fields} disabled={isRunning || !useYAxis} onChange={setYAxis} />
+          <label className="absolute top-3 right-3 text-[10px] text-slate-500 flex items-center gap-1"><input type="checkbox" checked={useYAxis} disabled={isRunning} onChange={(e) => setUseYAxis(e.target.checked)} /> 2D</label>
+        </div>
+        <div className="bg-slate-950/50 p-3 rounded-xl border border-slate-800 space-y-2">
+          <div className="text-[10px] text-slate-500 uppercase font-bold">Metric</div>
+          <select value={metric} onChange={(e) => setMetric(e.target.value as SweepMetricId)} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white outline-none">
+            {(Object.keys(SWEEP_METRICS) as SweepMetricId[]).map(id => <option key={id} value={id}>{SWEEP_METRICS[id].label}</option>)}
+          </select>
+          <div className="text-[9px] text-slate-500">{metricInfo.higherIsBetter ? 'Greener = higher' : 'Greener = lower'} · range {cells.length > 0 ? `${formatMetric(metric, min)} – ${formatMetric(metric, max)}` : '—'}</div>
+        </div>
+      </div>
+
+      {!grid ? (
+        <div className="text-center text-xs text-slate-600 italic py-12">No sweep run yet</div>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="border-separate border-spacing-1 text-[10px] font-mono mx-auto">
+            <tbody>
+              {ys.slice().reverse().map((y, rowFromTop) => {
+                const row = ys.length - 1 - rowFromTop;
+                return (
+                  <tr key={row}>
+                    <th className="text-slate-500 font-normal text-right pr-2">{grid.yAxis && y !== null ? formatAxisValue(grid.fields, grid.yAxis.field, y) : ''}</th>
+                    {xs.map((x, col) => {
+                      const cell = cells[row * xs.length + col];
+                      const t = cell && max > min ? (cell.metrics[metric] - min) / (max - min) : 0.5;
+                      return (
+                        <td key={col} title={cell ? `${formatAxisValue(grid.fields, grid.xAxis.field, x)}${grid.yAxis && y !== null ? ` / ${formatAxisValue(grid.fields, grid.yAxis.field, y)}` : ''}` : 'Pending'} className="w-16 h-10 text-center rounded text-white" style={{ background: cell ? cellColor(t, metricInfo.higherIsBetter) : '#1e293b' }}>
+                          {cell ? formatMetric(metric, cell.metrics[metric]) : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+              <tr>
+                <th></th>
+                {xs.map((x, col) => <th key={col} className="text-slate-500 font-normal pt-1">{formatAxisValue(grid.fields, grid.xAxis.field, x)}</th>)}
+              </tr>
+            </tbody>
+          </table>
+          <div className="text-center text-[10px] text-slate-500 uppercase mt-2">
+            {grid.fields[grid.xAxis.field]?.label}{grid.yAxis ? ` (x) × ${grid.fields[grid.yAxis.field]?.label} (y)` : ''}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
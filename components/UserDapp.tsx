@@ -1,7 +1,8 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Wallet, ArrowRight, ShieldCheck, Zap, TrendingUp, Lock, Coins, LogOut, CheckCircle2, List, Percent, ShieldAlert, Clock, Trophy, AlertTriangle } from 'lucide-react';
 import { SimulationStats, Player } from '../types';
+import { formatDuration } from '../engine/clock';
 
 interface UserDappProps {
   stats: SimulationStats;
@@ -17,23 +18,9 @@ export const UserDapp: React.FC<UserDappProps> = ({ stats, onDeposit, onWithdraw
   const [amount, setAmount] = useState<string>('100');
   const [userBalance, setUserBalance] = useState<number>(5000);
   const [txHash, setTxHash] = useState<string | null>(null);
-  const [timeLeft, setTimeLeft] = useState<string>('24:00:00');
 
-  useEffect(() => {
-     const timer = setInterval(() => {
-         if (!stats.roundActive) {
-             setTimeLeft("00:00:00");
-             return;
-         }
-         const now = Date.now();
-         const diff = Math.max(0, stats.roundExpiry - now);
-         const hours = Math.floor(diff / 3600000);
-         const minutes = Math.floor((diff % 3600000) / 60000);
-         const seconds = Math.floor((diff % 60000) / 1000);
-         setTimeLeft(`${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
-     }, 1000);
-     return () => clearInterval(timer);
-  }, [stats.roundExpiry, stats.roundActive]);
+  // Countdown runs on the simulator's virtual clock, not the wall clock
+  const timeLeft = stats.roundActive ? formatDuration(stats.roundExpiry - stats.simulatedTime) : '00:00:00';
 
   const handleConnect = () => {
     // Simulate wallet connection delay
@@ -0,0 +1,109 @@
+import React from 'react';
+import { LineChart, Line, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Scale } from 'lucide-react';
+import { FundingSource, PlayerOutcome } from '../types';
+import { buildHistogram, giniCoefficient, lorenzCurve } from '../engine/statistics';
+import { FUNDING_SOURCES, settledDepositors, wealthTransfer } from '../engine/wealth';
+
+interface WealthPanelProps {
+  outcomes: PlayerOutcome[];
+}
+
+const SOURCE_LABELS: Record<FundingSource, string> = {
+  DEPOSITS: 'Later depositors',
+  INITIAL_RESERVE: 'Initial reserve',
+  FEES: 'Fees & penalties',
+  JACKPOT: 'Jackpot pool'
+};
+
+const SOURCE_COLORS: Record<FundingSource, string> = {
+  DEPOSITS: 'bg-red-500',
+  INITIAL_RESERVE: 'bg-emerald-500',
+  FEES: 'bg-amber-500',
+  JACKPOT: 'bg-yellow-400'
+};
+
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' },
+  itemStyle: { color: '#e2e8f0' },
+  labelStyle: { color: '#94a3b8' }
+};
+
+const money = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+export const WealthPanel: React.FC<WealthPanelProps> = ({ outcomes }) => {
+  const settled = settledDepositors(outcomes);
+  const received = settled.map(o => o.collected);
+  const gini = giniCoefficient(received);
+  const lorenz = lorenzCurve(received).map(p => ({ population: Math.round(p.population * 100), share: Number((p.share * 100).toFixed(1)), equality: Math.round(p.population * 100) }));
+  const histogram = buildHistogram(settled.map(o => o.netProfit), 15).map(bin => ({ label: `$${((bin.x0 + bin.x1) / 2).toFixed(0)}`, count: bin.count, mid: (bin.x0 + bin.x1) / 2 }));
+  const transfer = wealthTransfer(outcomes);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><Scale className="w-4 h-4 text-fuchsia-500" /> Wealth Transfer</h2>
+        <span className="text-[10px] text-slate-500 font-mono">{settled.length.toLocaleString()} settled depositors</span>
+      </div>
+
+      {settled.length === 0 ? <div className="text-center text-xs text-slate-600 italic py-8">No settled depositors yet</div> : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-slate-950/50 p-3 rounded-2xl border border-slate-800">
+              <div className="flex justify-between text-[10px] text-slate-500 uppercase font-bold mb-2">Lorenz (received) <span className="text-fuchsia-400 font-mono">Gini {gini.toFixed(3)}</span></div>
+              <div className="w-full h-[140px] min-w-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={lorenz} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+                    <XAxis dataKey="population" type="number" domain={[0, 100]} stroke="#94a3b8" tick={{ fontSize: 9 }} unit="%" />
+                    <YAxis domain={[0, 100]} stroke="#94a3b8" tick={{ fontSize: 9 }} unit="%" />
+                    <Tooltip {...tooltipStyle} />
+                    <Line dataKey="equality" name="Equality" stroke="#475569" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                    <Line dataKey="share" name="Share received" stroke="#d946ef" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="bg-slate-950/50 p-3 rounded-2xl border border-slate-800">
+              <div className="text-[10px] text-slate-500 uppercase font-bold mb-2">Net profit per depositor</div>
+              <div className="w-full h-[140px] min-w-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={histogram} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+                    <XAxis dataKey="label" stroke="#94a3b8" tick={{ fontSize: 9 }} />
+                    <YAxis stroke="#94a3b8" tick={{ fontSize: 9 }} allowDecimals={false} />
+                    <Tooltip {...tooltipStyle} />
+                    <Bar dataKey="count" name="Depositors" isAnimationActive={false}>
+                      {histogram.map(bin => <Cell key={bin.label} fill={bin.mid < 0 ? '#ef4444' : '#10b981'} fillOpacity={0.7} />)}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-slate-950/50 p-3 rounded-2xl border border-slate-800">
+            <div className="flex justify-between text-[10px] text-slate-500 uppercase font-bold mb-2">
+              Who paid the winners
+              <span className="font-mono normal-case">{transfer.winners} won {money(transfer.totalProfit)} · {transfer.losers} lost {money(transfer.totalLoss)}</span>
+            </div>
+            <div className="flex h-2.5 rounded-full overflow-hidden bg-slate-800 mb-2">
+              {transfer.totalProfit > 0 && FUNDING_SOURCES.map(source => (
+                <div key={source} className={SOURCE_COLORS[source]} style={{ width: `${(transfer.profitBySource[source] / transfer.totalProfit) * 100}%` }} />
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-[10px] font-mono">
+              {FUNDING_SOURCES.map(source => (
+                <div key={source} className="flex justify-between text-slate-500">
+                  <span className="flex items-center gap-1"><span className={`w-1.5 h-1.5 rounded-full ${SOURCE_COLORS[source]}`} />{SOURCE_LABELS[source]}</span>
+                  <span className="text-slate-300">{money(transfer.profitBySource[source])} {transfer.totalProfit > 0 && <span className="text-slate-500">({((transfer.profitBySource[source] / transfer.totalProfit) * 100).toFixed(0)}%)</span>}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
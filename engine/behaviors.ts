@@ -0,0 +1,156 @@
+import { BehaviorModelId, BehaviorSettings, EngineState, SimulationConfig } from '../types';
+import { poisson, randomInt } from './random';
+
+// What a model may do during one tick. Actions apply immediately, so a model can
+// react to the state its own deposits produced (e.g. panic after a health drop).
+export interface BehaviorContext {
+  state: EngineState; // Live engine state (also the PRNG source): read it, never write it
+  config: SimulationConfig;
+  params: Record<string, number>;
+  random: () => number;
+  deposit: (amount: number) => void;
+  panicExit: () => void; // Emergency-withdraws one random organic queue member
+}
+
+export interface BehaviorParamInfo {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+export interface BehaviorModel {
+  id: BehaviorModelId;
+  label: string;
+  description: string;
+  params: Record<string, BehaviorParamInfo>;
+  tick: (ctx: BehaviorContext) => void;
+}
+
+const HOUR_MS = 3600 * 1000;
+
+const uniformDeposit = (ctx: BehaviorContext, min: number, max: number) =>
+  randomInt(ctx.state, min, Math.max(min + 1, max));
+
+// The original 1% / 5% panic roll keyed to healthFactor < 0.2
+const legacyPanic = (ctx: BehaviorContext, calm: number, stressed: number) => {
+  const panicChance = ctx.state.healthFactor < 0.2 ? stressed : calm;
+  if (ctx.state.queue.length > 5 && ctx.random() < panicChance) ctx.panicExit();
+};
+
+const CLASSIC: BehaviorModel = {
+  id: 'CLASSIC',
+  label: 'Classic Bots',
+  description: '30% chance of one uniform $50–$500 deposit per tick, 1% panic (5% when health < 0.2).',
+  params: {},
+  tick: ctx => {
+    if (ctx.random() > 0.7) {
+      ctx.deposit(uniformDeposit(ctx, 50, 500));
+      legacyPanic(ctx, 0.01, 0.05);
+    }
+  }
+};
+
+const POISSON: BehaviorModel = {
+  id: 'POISSON',
+  label: 'Poisson Arrivals',
+  description: 'Constant-rate Poisson arrivals with uniform deposit sizes.',
+  params: {
+    arrivalRate: { label: 'Arrivals / Tick', min: 0.05, max: 5, step: 0.05, defaultValue: 0.3 },
+    minDeposit: { label: 'Min Deposit', min: 10, max: 1000, step: 10, defaultValue: 50 },
+    maxDeposit: { label: 'Max Deposit', min: 10, max: 5000, step: 10, defaultValue: 500 },
+    panicChance: { label: 'Panic Chance', min: 0, max: 0.2, step: 0.005, defaultValue: 0.01 }
+  },
+  tick: ctx => {
+    const arrivals = poisson(ctx.state, ctx.params.arrivalRate);
+    for (let i = 0; i < arrivals; i++) ctx.deposit(uniformDeposit(ctx, ctx.params.minDeposit, ctx.params.maxDeposit));
+    legacyPanic(ctx, ctx.params.panicChance, ctx.params.panicChance * 5);
+  }
+};
+
+// Rate follows base + peak * (t / T) * e^(1 - t / T): grows to the peak at hour T, then decays
+const HYPE_CYCLE: BehaviorModel = {
+  id: 'HYPE_CYCLE',
+  label: 'Hype Cycle',
+  description: 'Arrivals grow to a peak, then fade. Tests what happens once new money dries up.',
+  params: {
+    baseRate: { label: 'Base Arrivals / Tick', min: 0, max: 1, step: 0.01, defaultValue: 0.02 },
+    peakRate: { label: 'Peak Arrivals / Tick', min: 0.1, max: 5, step: 0.1, defaultValue: 1 },
+    peakHour: { label: 'Peak at Hour', min: 1, max: 240, step: 1, defaultValue: 24 },
+    minDeposit: { label: 'Min Deposit', min: 10, max: 1000, step: 10, defaultValue: 50 },
+    maxDeposit: { label: 'Max Deposit', min: 10, max: 5000, step: 10, defaultValue: 500 }
+  },
+  tick: ctx => {
+    const phase = ctx.state.clock / (ctx.params.peakHour * HOUR_MS);
+    const rate = ctx.params.baseRate + ctx.params.peakRate * phase * Math.exp(1 - phase);
+    const arrivals = poisson(ctx.state, rate);
+    for (let i = 0; i < arrivals; i++) ctx.deposit(uniformDeposit(ctx, ctx.params.minDeposit, ctx.params.maxDeposit));
+    legacyPanic(ctx, 0.01, 0.05);
+  }
+};
+
+// Fear grows with queue length and with recent exits; it both scares off new money and triggers runs
+const HERD_PANIC: BehaviorModel = {
+  id: 'HERD_PANIC',
+  label: 'Herd Panic',
+  description: 'Long queues and recent exits spread fear: fewer deposits, more emergency withdrawals.',
+  params: {
+    arrivalRate: { label: 'Calm Arrivals / Tick', min: 0.05, max: 5, step: 0.05, defaultValue: 0.4 },
+    fearQueueLength: { label: 'Queue Length for Full Fear', min: 50, max: 5000, step: 50, defaultValue: 800 },
+    contagion: { label: 'Fear per Recent Exit', min: 0, max: 0.5, step: 0.01, defaultValue: 0.1 },
+    maxPanicRate: { label: 'Max Exits / Tick', min: 0, max: 5, step: 0.1, defaultValue: 1 },
+    minDeposit: { label: 'Min Deposit', min: 10, max: 1000, step: 10, defaultValue: 50 },
+    maxDeposit: { label: 'Max Deposit', min: 10, max: 5000, step: 10, defaultValue: 500 }
+  },
+  tick: ctx => {
+    const queueFear = ctx.state.queue.length / ctx.params.fearQueueLength;
+    const fear = Math.min(1, queueFear * 0.5 + ctx.state.exitMomentum * ctx.params.contagion);
+
+    const arrivals = poisson(ctx.state, ctx.params.arrivalRate * (1 - fear));
+    for (let i = 0; i < arrivals; i++) ctx.deposit(uniformDeposit(ctx, ctx.params.minDeposit, ctx.params.maxDeposit));
+
+    if (ctx.state.queue.length > 5) {
+      const exits = poisson(ctx.state, fear * ctx.params.maxPanicRate);
+      for (let i = 0; i < exits; i++) ctx.panicExit();
+    }
+  }
+};
+
+const WHALES: BehaviorModel = {
+  id: 'WHALES',
+  label: 'Whales',
+  description: 'Classic retail flow plus occasional whales depositing near the max deposit limit.',
+  params: {
+    whaleChance: { label: 'Whale Chance / Tick', min: 0, max: 0.5, step: 0.01, defaultValue: 0.05 },
+    whaleMinShare: { label: 'Whale Size (% of Cap)', min: 0.5, max: 1, step: 0.05, defaultValue: 0.9 }
+  },
+  tick: ctx => {
+    CLASSIC.tick(ctx);
+    if (ctx.random() < ctx.params.whaleChance) {
+      const cap = ctx.config.maxDepositLimit;
+      ctx.deposit(Math.floor(cap * (ctx.params.whaleMinShare + ctx.random() * (1 - ctx.params.whaleMinShare))));
+    }
+  }
+};
+
+export const BEHAVIOR_MODELS: Record<BehaviorModelId, BehaviorModel> = {
+  CLASSIC,
+  POISSON,
+  HYPE_CYCLE,
+  HERD_PANIC,
+  WHALES
+};
+
+export const DEFAULT_BEHAVIOR: BehaviorSettings = { model: 'CLASSIC', params: {} };
+
+export const defaultBehaviorParams = (model: BehaviorModelId): Record<string, number> => {
+  const params: Record<string, number> = {};
+  Object.entries(BEHAVIOR_MODELS[model].params).forEach(([key, info]) => { params[key] = info.defaultValue; });
+  return params;
+};
+
+export const resolveBehaviorParams = (behavior: BehaviorSettings): Record<string, number> => ({
+  ...defaultBehaviorParams(behavior.model),
+  ...behavior.params
+});
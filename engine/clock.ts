@@ -0,0 +1,29 @@
+// Virtual clock: the engine owns time, so rounds can be fast-forwarded and replayed.
+// All values are simulated milliseconds since the start of the run.
+
+export interface ClockSource {
+  clock: number;
+}
+
+export const SECONDS_PER_DAY = 86400;
+
+export const advanceClock = (source: ClockSource, seconds: number) => {
+  source.clock += Math.max(0, seconds) * 1000;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// 03:20:00 style countdown
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+// "Day 2 · 03:20:00" wall-clock style reading of the simulated time
+export const formatSimTime = (ms: number): string => {
+  const day = Math.floor(ms / (SECONDS_PER_DAY * 1000)) + 1;
+  return `Day ${day} · ${formatDuration(ms % (SECONDS_PER_DAY * 1000))}`;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { OutcomeKind, PlayerOutcome } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { buildCohorts, cohortsToCsv } from './cohorts';
+import { createOutcomeTracker, OutcomeTracker } from './outcomes';
+import { runSimulation } from './runner';
+
+const HOUR = 3600 * 1000;
+
+const outcome = (entryIndex: number | null, kind: OutcomeKind, fields: Partial<PlayerOutcome> = {}): PlayerOutcome => ({
+  playerId: `p${entryIndex}`,
+  deposit: 100,
+  collected: kind === 'PAID' ? 200 : 0,
+  netProfit: kind === 'PAID' ? 100 : -100,
+  outcome: kind,
+  isOrganic: true,
+  entryIndex,
+  entryTime: (entryIndex ?? 0) * HOUR,
+  exitTime: kind === 'OPEN' ? null : (entryIndex ?? 0) * HOUR + 2 * HOUR,
+  funding: { DEPOSITS: 0, INITIAL_RESERVE: 0, FEES: 0, JACKPOT: 0 },
+  ...fields
+});
+
+describe('buildCohorts', () => {
+  it('groups by deposit order and averages per cohort', () => {
+    const cohorts = buildCohorts([outcome(0, 'PAID'), outcome(1, 'TRAPPED'), outcome(2, 'TRAPPED'), outcome(3, 'OPEN')], 'DEPOSITS', 2);
+
+    expect(cohorts.map(c => c.label)).toEqual(['#1–2', '#3–4']);
+    expect(cohorts[0]).toMatchObject({ depositors: 2, deposited: 200, avgNetProfit: 0, avgTimeToExit: 2 * HOUR });
+    expect(cohorts[0].counts).toMatchObject({ PAID: 1, TRAPPED: 1 });
+    expect(cohorts[1]).toMatchObject({ avgNetProfit: -100, avgTimeToExit: null });
+    expect(cohorts[1].counts).toMatchObject({ TRAPPED: 1, OPEN: 1 });
+  });
+
+  it('groups by simulated hours', () => {
+    const cohorts = buildCohorts([outcome(0, 'PAID'), outcome(5, 'PAID'), outcome(6, 'EARLY_EXIT')], 'HOURS', 6);
+    expect(cohorts.map(c => [c.label, c.depositors])).toEqual([['Day 1 · 00:00', 2], ['Day 1 · 06:00', 1]]);
+  });
+
+  it('leaves out protocol positions and ones that entered before tracking', () => {
+    const cohorts = buildCohorts([outcome(0, 'PAID', { isOrganic: false }), outcome(null, 'PAID', { entryTime: null })], 'DEPOSITS', 10);
+    expect(cohorts).toEqual([]);
+  });
+
+  it('exports one CSV row per cohort', () => {
+    const lines = cohortsToCsv(buildCohorts([outcome(0, 'PAID'), outcome(1, 'OPEN')], 'DEPOSITS', 1)).trim().split('\n');
+    expect(lines[0]).toBe('cohort,depositors,deposited,PAID,REFUND,JACKPOT_WIN,EARLY_EXIT,TRAPPED,OPEN,avgNetProfit,avgTimeToExitSeconds');
+    expect(lines[1]).toBe('#1–1,1,100,1,0,0,0,0,0,100,7200');
+    expect(lines[2]).toBe('#2–2,1,100,0,0,0,0,0,1,-100,');
+  });
+});
+
+describe('outcome tracker entry data', () => {
+  it('numbers organic deposits in order and places every depositor in exactly one cohort', () => {
+    let tracker = null as OutcomeTracker | null;
+    const { finalState } = runSimulation(DEFAULT_CONFIG, {
+      ticks: 3000,
+      seed: 7,
+      onStart: state => { tracker = createOutcomeTracker(state); },
+      onEvents: (events, state) => tracker?.observe(events, state)
+    });
+    const organic = tracker!.finalize(finalState).filter(o => o.isOrganic);
+
+    const indexes = organic.map(o => o.entryIndex).sort((a, b) => a! - b!);
+    expect(indexes).toEqual(organic.map((_, i) => i));
+    organic.filter(o => o.exitTime !== null).forEach(o => expect(o.exitTime).toBeGreaterThanOrEqual(o.entryTime!));
+
+    const cohorts = buildCohorts(organic, 'DEPOSITS', 100);
+    expect(cohorts.reduce((acc, c) => acc + c.depositors, 0)).toBe(organic.length);
+  });
+});
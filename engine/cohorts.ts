@@ -0,0 +1,58 @@
+import { Cohort, CohortWindow, OutcomeKind, PlayerOutcome } from '../types';
+import { formatSimTime } from './clock';
+import { toCsv } from './csv';
+
+export const OUTCOME_KINDS: OutcomeKind[] = ['PAID', 'REFUND', 'JACKPOT_WIN', 'EARLY_EXIT', 'TRAPPED', 'OPEN'];
+
+const HOUR_MS = 3600 * 1000;
+const LEFT_WITH_MONEY: OutcomeKind[] = ['PAID', 'REFUND', 'JACKPOT_WIN', 'EARLY_EXIT'];
+
+const cohortIndex = (outcome: PlayerOutcome, window: CohortWindow, size: number): number | null => {
+  if (window === 'DEPOSITS') return outcome.entryIndex === null ? null : Math.floor(outcome.entryIndex / size);
+  return outcome.entryTime === null ? null : Math.floor(outcome.entryTime / (size * HOUR_MS));
+};
+
+const cohortLabel = (index: number, window: CohortWindow, size: number): string =>
+  window === 'DEPOSITS' ? `#${index * size + 1}–${(index + 1) * size}` : formatSimTime(index * size * HOUR_MS).replace(/:\d\d$/, '');
+
+// Groups organic depositors by entry window: every `size` deposits, or every `size` simulated hours.
+// Positions that entered before tracking started (restored runs) cannot be placed and are left out.
+export const buildCohorts = (outcomes: PlayerOutcome[], window: CohortWindow, size: number): Cohort[] => {
+  const width = Math.max(1, size);
+  const groups = new Map<number, PlayerOutcome[]>();
+  for (const outcome of outcomes) {
+    if (!outcome.isOrganic) continue;
+    const index = cohortIndex(outcome, window, width);
+    if (index === null) continue;
+    const group = groups.get(index);
+    if (group) group.push(outcome);
+    else groups.set(index, [outcome]);
+  }
+
+  return Array.from(groups.keys()).sort((a, b) => a - b).map(index => {
+    const members = groups.get(index)!;
+    const counts = Object.fromEntries(OUTCOME_KINDS.map(kind => [kind, 0])) as Record<OutcomeKind, number>;
+    members.forEach(o => counts[o.outcome]++);
+
+    const exited = members.filter(o => LEFT_WITH_MONEY.includes(o.outcome) && o.exitTime !== null && o.entryTime !== null);
+    return {
+      index,
+      label: cohortLabel(index, window, width),
+      depositors: members.length,
+      deposited: members.reduce((acc, o) => acc + o.deposit, 0),
+      counts,
+      avgNetProfit: members.reduce((acc, o) => acc + o.netProfit, 0) / members.length,
+      avgTimeToExit: exited.length > 0 ? exited.reduce((acc, o) => acc + (o.exitTime! - o.entryTime!), 0) / exited.length : null
+    };
+  });
+};
+
+export const cohortsToCsv = (cohorts: Cohort[]): string =>
+  toCsv(cohorts.map(c => ({
+    cohort: c.label,
+    depositors: c.depositors,
+    deposited: c.deposited,
+    ...c.counts,
+    avgNetProfit: c.avgNetProfit,
+    avgTimeToExitSeconds: c.avgTimeToExit === null ? null : c.avgTimeToExit / 1000
+  })));
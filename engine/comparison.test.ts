@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ComparisonMetricId, ComparisonRun, ComparisonVariant, DistributionStrategy } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { COMPARISON_METRICS, COMPARISON_PRESETS, compareRuns, comparisonToCsv, runComparison } from './comparison';
+
+const base: ComparisonVariant = { name: 'Base', config: DEFAULT_CONFIG, multiplier: 2, strategy: DistributionStrategy.STANDARD };
+
+const run = (name: string, overrides: Partial<Record<ComparisonMetricId, number>>): ComparisonRun => {
+  const metrics = {} as Record<ComparisonMetricId, number>;
+  (Object.keys(COMPARISON_METRICS) as ComparisonMetricId[]).forEach(id => { metrics[id] = overrides[id] ?? 100; });
+  return { variant: { ...base, name }, summary: null as never, series: [], metrics };
+};
+
+describe('compareRuns', () => {
+  it('reports changes relative to the first run and flags the metrics that moved', () => {
+    const rows = compareRuns([run('A', {}), run('B', { protocolBalance: 150, usersTrapped: 100.2 })]);
+    const reserve = rows.find(r => r.metric === 'protocolBalance')!;
+    const trapped = rows.find(r => r.metric === 'usersTrapped')!;
+
+    expect(reserve).toMatchObject({ values: [100, 150], deltas: [0, 0.5], moved: true });
+    expect(trapped.moved).toBe(false);
+  });
+
+  it('treats any change from a zero baseline as a full move', () => {
+    const rows = compareRuns([run('A', { roundsCompleted: 0 }), run('B', { roundsCompleted: 2 })]);
+    expect(rows.find(r => r.metric === 'roundsCompleted')!.deltas).toEqual([0, 1]);
+  });
+
+  it('writes one column per run plus the change against the baseline', () => {
+    const runs = [run('A', {}), run('B', { totalDeposited: 110 })];
+    const [header, first] = comparisonToCsv(runs, compareRuns(runs)).split('\n');
+    expect(header).toBe('metric,A,B,B change,moved');
+    expect(first).toMatch(/^totalDeposited,100,110,0\.1\d*,true$/);
+  });
+});
+
+describe('runComparison', () => {
+  it('replays the same seed, so identical setups cannot differ', () => {
+    const runs = runComparison([base, { ...base, name: 'Copy' }], { ticks: 800, seed: 3 });
+    expect(compareRuns(runs).filter(r => r.moved)).toEqual([]);
+    expect(runs[0].series).toEqual(runs[1].series);
+  });
+
+  it('shows a difference when one setting changes', () => {
+    const runs = runComparison(COMPARISON_PRESETS.strategy.build(base), { ticks: 800, seed: 3 });
+    expect(runs.map(r => r.variant.strategy)).toEqual([DistributionStrategy.STANDARD, DistributionStrategy.INFINITY_LOOP]);
+    expect(compareRuns(runs).some(r => r.moved)).toBe(true);
+  });
+});
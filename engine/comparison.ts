@@ -0,0 +1,148 @@
+import { BehaviorSettings, ComparisonMetricId, ComparisonRow, ComparisonRun, ComparisonVariant, DistributionStrategy, RunSummary } from '../types';
+import { runSimulation } from './runner';
+import { createOutcomeTracker, OutcomeTracker } from './outcomes';
+import { CsvRow, toCsv } from './csv';
+import { settledDepositors } from './wealth';
+
+export interface ComparisonOptions {
+  ticks: number;
+  seed: number; // Every variant replays this seed, so differences come from the settings alone
+  behavior?: BehaviorSettings;
+}
+
+export interface ComparisonMetricInfo {
+  label: string;
+  higherIsBetter?: boolean; // Omitted when a change is neither good nor bad
+  evaluate: (summary: RunSummary, losingShare: number) => number;
+}
+
+export const COMPARISON_METRICS: Record<ComparisonMetricId, ComparisonMetricInfo> = {
+  totalDeposited: { label: 'Volume', higherIsBetter: true, evaluate: s => s.totalDeposited },
+  totalPaidOut: { label: 'Paid to users', higherIsBetter: true, evaluate: s => s.totalPaidOut },
+  usersPaidExit: { label: 'Exited', higherIsBetter: true, evaluate: s => s.usersPaidExit },
+  usersTrapped: { label: 'Trapped', higherIsBetter: false, evaluate: s => s.usersTrapped },
+  losingShare: { label: 'Losing depositors', higherIsBetter: false, evaluate: (_, losingShare) => losingShare },
+  protocolBalance: { label: 'Reserve', higherIsBetter: true, evaluate: s => s.protocolBalance },
+  jackpotBalance: { label: 'Jackpot', higherIsBetter: true, evaluate: s => s.jackpotBalance },
+  operatorBalance: { label: 'Operator take', higherIsBetter: false, evaluate: s => s.operatorBalance },
+  writtenOffPrincipal: { label: 'Written off', higherIsBetter: false, evaluate: s => s.writtenOffPrincipal },
+  finalLiability: { label: 'Liability', higherIsBetter: false, evaluate: s => s.finalLiability },
+  finalHealthFactor: { label: 'Health factor', higherIsBetter: true, evaluate: s => s.finalHealthFactor },
+  roundsCompleted: { label: 'Rounds closed', evaluate: s => s.roundsCompleted }
+};
+
+export const COMPARISON_THRESHOLD = 0.005; // Relative change that counts as "moved"
+export const COMPARISON_POINTS = 300; // Series points kept per run
+
+// One-click "what does X change" pairs, built from the current setup
+export const COMPARISON_PRESETS: Record<string, { label: string; build: (base: ComparisonVariant) => ComparisonVariant[] }> = {
+  tax: {
+    label: 'Sustainability Tax on / off',
+    build: base => [
+      { ...base, name: 'Tax on', config: { ...base.config, penaltyEnabled: true } },
+      { ...base, name: 'Tax off', config: { ...base.config, penaltyEnabled: false } }
+    ]
+  },
+  taxMode: {
+    label: 'Entry vs Exit tax',
+    build: base => [
+      { ...base, name: 'Entry tax', config: { ...base.config, penaltyEnabled: true, penaltyType: 'ENTRY' } },
+      { ...base, name: 'Exit tax', config: { ...base.config, penaltyEnabled: true, penaltyType: 'EXIT' } }
+    ]
+  },
+  strategy: {
+    label: 'Standard vs Infinity Loop',
+    build: base => [
+      { ...base, name: 'Standard', strategy: DistributionStrategy.STANDARD },
+      { ...base, name: 'Infinity Loop', strategy: DistributionStrategy.INFINITY_LOOP }
+    ]
+  },
+  distribution: {
+    label: 'Head vs Pro-rata vs Tail',
+    build: base => [
+      { ...base, name: 'Head-first', strategy: DistributionStrategy.STANDARD },
+      { ...base, name: 'Pro-rata', strategy: DistributionStrategy.PRO_RATA_DEPOSIT },
+      { ...base, name: 'Tail-first', strategy: DistributionStrategy.TAIL_FIRST }
+    ]
+  },
+  refund: {
+    label: 'FIFO vs Pro-rata vs Smallest-first refund',
+    build: base => [
+      { ...base, name: 'FIFO refund', config: { ...base.config, refundPolicy: 'FIFO' } },
+      { ...base, name: 'Pro-rata refund', config: { ...base.config, refundPolicy: 'PRO_RATA' } },
+      { ...base, name: 'Smallest first', config: { ...base.config, refundPolicy: 'SMALLEST_FIRST' } }
+    ]
+  },
+  carryOver: {
+    label: 'Carry over vs Write off',
+    build: base => [
+      { ...base, name: 'Carry over', config: { ...base.config, trappedPolicy: 'CARRY_OVER' } },
+      { ...base, name: 'Write off', config: { ...base.config, trappedPolicy: 'WRITE_OFF' } }
+    ]
+  },
+  adaptive: {
+    label: 'Decay vs Target 100',
+    build: base => [
+      { ...base, name: 'Queue decay', config: { ...base.config, multiplierPolicy: { policy: 'LOGISTIC_DECAY', params: {} } } },
+      { ...base, name: 'Target 100', config: { ...base.config, multiplierPolicy: { policy: 'TARGET_100', params: {} } } }
+    ]
+  },
+  decay: {
+    label: 'Decay vs Fixed',
+    build: base => [
+      { ...base, name: 'Queue decay', config: { ...base.config, multiplierPolicy: { policy: 'LOGISTIC_DECAY', params: {} } } },
+      { ...base, name: 'Fixed', config: { ...base.config, multiplierPolicy: { policy: 'FIXED', params: {} } } }
+    ]
+  }
+};
+
+export const runComparisonVariant = (variant: ComparisonVariant, options: ComparisonOptions): ComparisonRun => {
+  let tracker = null as OutcomeTracker | null;
+  const { summary, series, finalState } = runSimulation(variant.config, {
+    ticks: options.ticks,
+    seed: options.seed,
+    multiplier: variant.multiplier,
+    strategy: variant.strategy,
+    behavior: options.behavior,
+    sampleEvery: Math.max(1, Math.ceil(options.ticks / COMPARISON_POINTS)),
+    onStart: state => { tracker = createOutcomeTracker(state); },
+    onEvents: (events, state) => tracker?.observe(events, state)
+  });
+
+  if (!tracker) throw new Error('Run finished without starting');
+  const depositors = settledDepositors(tracker.finalize(finalState));
+  const losingShare = depositors.length > 0 ? depositors.filter(o => o.netProfit < 0).length / depositors.length : 0;
+
+  const metrics = {} as Record<ComparisonMetricId, number>;
+  (Object.keys(COMPARISON_METRICS) as ComparisonMetricId[]).forEach(id => {
+    metrics[id] = COMPARISON_METRICS[id].evaluate(summary, losingShare);
+  });
+  return { variant, summary, series, metrics };
+};
+
+export const runComparison = (variants: ComparisonVariant[], options: ComparisonOptions): ComparisonRun[] =>
+  variants.map(variant => runComparisonVariant(variant, options));
+
+const relativeChange = (value: number, baseline: number) => {
+  if (baseline === 0) return value === 0 ? 0 : Math.sign(value);
+  return (value - baseline) / Math.abs(baseline);
+};
+
+// Every metric against the first run
+export const compareRuns = (runs: ComparisonRun[], threshold = COMPARISON_THRESHOLD): ComparisonRow[] =>
+  (Object.keys(COMPARISON_METRICS) as ComparisonMetricId[]).map(metric => {
+    const values = runs.map(run => run.metrics[metric]);
+    const deltas = values.map(v => relativeChange(v, values[0]));
+    return { metric, values, deltas, moved: deltas.some(d => Math.abs(d) > threshold) };
+  });
+
+export const comparisonToCsv = (runs: ComparisonRun[], rows: ComparisonRow[]): string =>
+  toCsv(rows.map(row => {
+    const record: CsvRow = { metric: row.metric };
+    runs.forEach((run, i) => {
+      record[run.variant.name] = row.values[i];
+      if (i > 0) record[`${run.variant.name} change`] = row.deltas[i];
+    });
+    record.moved = row.moved;
+    return record;
+  }));
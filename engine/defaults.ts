@@ -0,0 +1,42 @@
+import { SimulationConfig } from '../types';
+
+// Baseline setup shared by the UI, the CLI and batch tools
+export const DEFAULT_CONFIG: SimulationConfig = {
+  feePercent: 0.05,
+  minimumFee: 1,
+
+  feeToReserve: 0.5,
+  feeToJackpot: 0.5,
+  feeToOperator: 0,
+  feeToQueue: 0,
+
+  penaltyEnabled: true,
+  penaltyThreshold: 500,
+  penaltyRate: 0.10,
+  penaltyType: 'ENTRY',
+
+  breakEvenChance: 0.0,
+  dailyDripRate: 0.10,
+  yieldSplit: 0.0,
+  multiplierPolicy: { policy: 'LOGISTIC_DECAY', params: {} },
+  initialReserve: 10000,
+  jackpotFrequency: 1000,
+  jackpotAmount: 500,
+  reinvestRate: 0.40,
+  reverseYieldRate: 0.20,
+
+  jackpotPolicy: 'LAST_DEPOSITOR',
+  jackpotPayoutShare: 0.5,
+  jackpotWinnerCount: 10,
+  refundPolicy: 'FIFO',
+  reserveCarryOver: 0,
+  trappedPolicy: 'WRITE_OFF',
+
+  maxDepositLimit: 1000,
+  maxTransactions: 1000, // Fixed 1000 Tx per day limit
+  roundDurationSeconds: 86400,
+  secondsPerTick: 60 // 1 simulated minute per tick
+};
+
+export const DEFAULT_MULTIPLIER = 2.0;
+export const DEFAULT_RUN_LENGTH = 20000; // Engine ticks
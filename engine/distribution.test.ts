@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DistributionStrategy, Player, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { DISTRIBUTION_STRATEGIES } from './distribution';
+import { createEngineState, processDeposit, triggerDailyDrip } from './simulationEngine';
+import { player } from './testHelpers';
+
+const allocate = (strategy: DistributionStrategy, queue: Player[], pool: number) =>
+  DISTRIBUTION_STRATEGIES[strategy].allocate(queue, pool);
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+describe('distribution strategies', () => {
+  // Owed 200, 100 and 600
+  const queue = [player('a', 100), player('b', 100, { collected: 100 }), player('c', 300)];
+
+  it('head-first fills the oldest position before the next', () => {
+    expect(allocate(DistributionStrategy.STANDARD, queue, 250)).toEqual([200, 50, 0]);
+  });
+
+  it('tail-first fills the newest position before the one ahead of it', () => {
+    expect(allocate(DistributionStrategy.TAIL_FIRST, queue, 700)).toEqual([0, 100, 600]);
+  });
+
+  it('pro-rata by deposit splits by deposit size', () => {
+    expect(allocate(DistributionStrategy.PRO_RATA_DEPOSIT, queue, 100)).toEqual([20, 20, 60]);
+  });
+
+  it('pro-rata by deposit hands a capped share to the positions still owed', () => {
+    // b is owed only 100 of its 200 share; the other 100 goes to a and c by deposit
+    const amounts = allocate(DistributionStrategy.PRO_RATA_DEPOSIT, queue, 1000);
+    expect(amounts[1]).toBe(100);
+    expect(amounts[0]).toBeCloseTo(200, 10);
+    expect(amounts[2]).toBeCloseTo(600, 10);
+  });
+
+  it('pro-rata by liability splits by what each position is still owed', () => {
+    const amounts = allocate(DistributionStrategy.PRO_RATA_LIABILITY, queue, 450);
+    expect(amounts.map(a => a / 450)).toEqual([200 / 900, 100 / 900, 600 / 900].map(share => expect.closeTo(share, 10)));
+  });
+
+  it('tiered gives each third its bucket and sends what a third cannot take to the head', () => {
+    // Buckets of 500 / 300 / 200: a takes 200 of its 500, b its 100 of 300, c its 200
+    expect(allocate(DistributionStrategy.TIERED, queue, 1000)).toEqual([200, 100, 600]);
+    expect(allocate(DistributionStrategy.TIERED, queue, 100)).toEqual([50, 30, 20]);
+  });
+
+  it('never allocates more than the pool or more than a position is owed', () => {
+    const many = Array.from({ length: 17 }, (_, i) => player(`p${i}`, 10 + i * 7, { collected: i % 3 === 0 ? 5 : 0 }));
+    Object.values(DistributionStrategy).forEach(strategy => {
+      [1, 250, 1e6].forEach(pool => {
+        const amounts = allocate(strategy, many, pool);
+        expect(sum(amounts)).toBeLessThanOrEqual(pool + 1e-9);
+        amounts.forEach((amount, i) => expect(amount).toBeLessThanOrEqual(many[i].target - many[i].collected + 1e-9));
+      });
+    });
+  });
+});
+
+describe('distribution in the engine', () => {
+  const config: SimulationConfig = { ...DEFAULT_CONFIG, multiplierPolicy: { policy: 'FIXED', params: {} }, penaltyEnabled: false, yieldSplit: 0 };
+
+  it('pays deposits with the run strategy', () => {
+    const start = { ...createEngineState(config, { seed: 1, strategy: DistributionStrategy.TAIL_FIRST }), queue: [player('a', 100), player('b', 100)] };
+    const { state } = processDeposit(start, config, { amount: 100, advanceTime: false });
+    expect(state.queue.find(p => p.id === 'a')!.collected).toBe(0);
+    expect(state.queue.find(p => p.id === 'b')!.collected).toBeCloseTo(95, 10);
+  });
+
+  it('pays drips with the run strategy', () => {
+    const start = {
+      ...createEngineState(config, { seed: 1, strategy: DistributionStrategy.PRO_RATA_DEPOSIT }),
+      queue: [player('a', 100), player('b', 300)],
+      protocolBalance: 1000,
+      healthFactor: 1
+    };
+    const { state, events } = triggerDailyDrip(start, config);
+    const drip = 1000 * config.dailyDripRate;
+    expect(events.filter(e => e.type === 'PAYOUT').map(e => e.type === 'PAYOUT' && e.amount)).toEqual([drip / 4, drip * 3 / 4]);
+    expect(state.protocolBalance).toBeCloseTo(1000 - drip, 10);
+  });
+});
@@ -0,0 +1,130 @@
+import { DistributionStrategy, Player } from '../types';
+
+export interface DistributionStrategyInfo {
+  id: DistributionStrategy;
+  label: string;
+  description: string;
+  // Splits a pool across the queue (oldest first): one amount per position, never more than it is still owed
+  allocate: (queue: Player[], pool: number) => number[];
+  reinvest: boolean; // Paid positions re-enter with reinvestRate of what they collected
+  flushDrip: boolean; // Drips release the whole reserve and send reverseYieldRate of it to the tail
+}
+
+// Share of the pool for each third of the queue, head third first
+export const TIER_SHARES = [0.5, 0.3, 0.2];
+
+const owed = (queue: Player[]) => queue.map(p => Math.max(0, p.target - p.collected));
+
+const indexes = (queue: Player[]) => queue.map((_, i) => i);
+
+// Pays positions in the given order until the pool runs dry; returns what is left
+export const fillInOrder = (order: number[], needs: number[], amounts: number[], pool: number): number => {
+  let remaining = pool;
+  for (const i of order) {
+    if (remaining <= 0) break;
+    const pay = Math.min(remaining, needs[i] - amounts[i]);
+    if (pay <= 0) continue;
+    amounts[i] += pay;
+    remaining -= pay;
+  }
+  return remaining;
+};
+
+// Pool split by weight; a position that would get more than it needs is filled and its excess shared by the rest
+export const shareByWeight = (needs: number[], weights: number[], pool: number): number[] => {
+  const amounts = needs.map(() => 0);
+  // Positions closest to full (need / weight) cap out first
+  const order = needs.map((_, i) => i).filter(i => needs[i] > 0 && weights[i] > 0).sort((a, b) => needs[a] / weights[a] - needs[b] / weights[b]);
+
+  let remaining = pool;
+  let totalWeight = order.reduce((acc, i) => acc + weights[i], 0);
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k];
+    if (remaining * weights[i] / totalWeight < needs[i]) {
+      order.slice(k).forEach(j => { amounts[j] = remaining * weights[j] / totalWeight; });
+      break;
+    }
+    amounts[i] = needs[i];
+    remaining -= needs[i];
+    totalWeight -= weights[i];
+  }
+  return amounts;
+};
+
+const inOrder = (reverse: boolean) => (queue: Player[], pool: number): number[] => {
+  const needs = owed(queue);
+  const amounts = needs.map(() => 0);
+  const order = indexes(queue);
+  fillInOrder(reverse ? order.reverse() : order, needs, amounts, pool);
+  return amounts;
+};
+
+const proRata = (weight: (p: Player, owed: number) => number) => (queue: Player[], pool: number): number[] => {
+  const needs = owed(queue);
+  return shareByWeight(needs, queue.map((p, i) => Math.max(0, weight(p, needs[i]))), pool);
+};
+
+// Each third of the queue gets its TIER_SHARES slice head-first; whatever a tier cannot take goes head-first to everyone
+const tiered = (queue: Player[], pool: number): number[] => {
+  const needs = owed(queue);
+  const amounts = needs.map(() => 0);
+  const size = Math.ceil(queue.length / TIER_SHARES.length);
+  let leftover = 0;
+  TIER_SHARES.forEach((share, tier) => {
+    const members = indexes(queue).slice(tier * size, (tier + 1) * size);
+    leftover += fillInOrder(members, needs, amounts, pool * share);
+  });
+  fillInOrder(indexes(queue), needs, amounts, leftover);
+  return amounts;
+};
+
+export const DISTRIBUTION_STRATEGIES: Record<DistributionStrategy, DistributionStrategyInfo> = {
+  [DistributionStrategy.STANDARD]: {
+    id: DistributionStrategy.STANDARD,
+    label: 'Head-first FIFO',
+    description: 'The oldest position is paid in full before the next one gets anything.',
+    allocate: inOrder(false),
+    reinvest: false,
+    flushDrip: false
+  },
+  [DistributionStrategy.INFINITY_LOOP]: {
+    id: DistributionStrategy.INFINITY_LOOP,
+    label: 'Infinity Loop',
+    description: 'Head-first, but drips flush the whole reserve with a slice to the newest 10, and paid positions reinvest.',
+    allocate: inOrder(false),
+    reinvest: true,
+    flushDrip: true
+  },
+  [DistributionStrategy.PRO_RATA_DEPOSIT]: {
+    id: DistributionStrategy.PRO_RATA_DEPOSIT,
+    label: 'Pro-rata by Deposit',
+    description: 'Every position gets a share proportional to its deposit.',
+    allocate: proRata(p => p.deposit),
+    reinvest: false,
+    flushDrip: false
+  },
+  [DistributionStrategy.PRO_RATA_LIABILITY]: {
+    id: DistributionStrategy.PRO_RATA_LIABILITY,
+    label: 'Pro-rata by Liability',
+    description: 'Every position gets a share proportional to what it is still owed.',
+    allocate: proRata((_, remaining) => remaining),
+    reinvest: false,
+    flushDrip: false
+  },
+  [DistributionStrategy.TIERED]: {
+    id: DistributionStrategy.TIERED,
+    label: 'Tiered Buckets',
+    description: 'The queue is cut into thirds getting 50% / 30% / 20% of each pool, head-first inside a third.',
+    allocate: tiered,
+    reinvest: false,
+    flushDrip: false
+  },
+  [DistributionStrategy.TAIL_FIRST]: {
+    id: DistributionStrategy.TAIL_FIRST,
+    label: 'Tail-first',
+    description: 'The newest position is paid in full first, working back toward the head.',
+    allocate: inOrder(true),
+    reinvest: false,
+    flushDrip: false
+  }
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationConfig } from '../types';
+import { createInvariantChecker, describeViolation } from './invariants';
+import { createEngineState, handleEmergencyWithdraw, processDeposit, startNextRound, triggerDailyDrip } from './simulationEngine';
+import { config, player, stateWith } from './testHelpers';
+
+describe('funds invariant', () => {
+  it('holds while deposits only move money into the queue and the pools', () => {
+    let state = createEngineState(config, { seed: 1 });
+    const checker = createInvariantChecker(state);
+
+    for (const amount of [100, 250, 400, 80]) {
+      const result = processDeposit(state, config, { amount });
+      expect(checker.check(result.events, result.state)).toBeNull();
+      state = result.state;
+    }
+    const drip = triggerDailyDrip(state, config);
+    expect(checker.check(drip.events, drip.state)).toBeNull();
+
+    expect(checker.violationCount()).toBe(0);
+    expect(checker.breakdown()).toMatchObject({ inflows: config.initialReserve + 830, drift: expect.closeTo(0, 6) });
+  });
+
+  it('counts the operator take as held and routed queue shares as queue money', () => {
+    const routed: SimulationConfig = { ...config, feeToOperator: 1, feeToQueue: 1, penaltyEnabled: true, penaltyType: 'EXIT', penaltyThreshold: 100 };
+    let state = createEngineState(routed, { seed: 1 });
+    const checker = createInvariantChecker(state);
+
+    for (const amount of [300, 900, 1000, 1000, 1000]) {
+      const result = processDeposit(state, routed, { amount });
+      expect(checker.check(result.events, result.state)).toBeNull();
+      state = result.state;
+    }
+    expect(state.operatorBalance).toBeGreaterThan(0);
+    expect(state.exits.some(p => p.slashed)).toBe(true);
+    expect(checker.breakdown().operator).toBe(state.operatorBalance);
+  });
+
+  it('counts a finished position as paid out', () => {
+    // The seed needs 1100; this deposit nets exactly that
+    const start = createEngineState(config, { seed: 1 });
+    const checker = createInvariantChecker(start);
+    const { state, events } = processDeposit(start, { ...config, maxDepositLimit: 2000, feePercent: 0 }, { amount: 1101 });
+
+    expect(checker.check(events, state)).toBeNull();
+    expect(checker.breakdown().paidOut).toBeCloseTo(1100);
+  });
+
+  it('does not count the profit a jackpot bot returns to the jackpot as paid out', () => {
+    const start = stateWith([player('JACKPOT_BOT_1', 500, { collected: 990 }), player('p1', 1000)]);
+    const checker = createInvariantChecker(start);
+    const { state, events } = processDeposit(start, config, { amount: 100 });
+
+    expect(events).toContainEqual({ type: 'JACKPOT_BOT_PROFIT', playerId: 'JACKPOT_BOT_1', amount: 500 });
+    expect(checker.check(events, state)).toBeNull();
+    expect(checker.breakdown().paidOut).toBeCloseTo(500, 6);
+  });
+
+  it('flags an emergency refund that exceeds what the player had collected', () => {
+    let state = processDeposit(createEngineState(config, { seed: 1 }), config, { amount: 100 }).state;
+    const checker = createInvariantChecker(state);
+    const victim = state.queue[1];
+
+    const result = handleEmergencyWithdraw(state, config, victim.id);
+    const violation = checker.check(result.events, result.state);
+    state = result.state;
+
+    expect(violation).toMatchObject({ delta: expect.closeTo(victim.deposit - victim.collected, 6), eventTypes: ['EMERGENCY_EXIT'] });
+    expect(describeViolation(violation!)).toBe('Created $100.00 during EMERGENCY_EXIT');
+    expect(checker.violations()).toEqual([violation]);
+  });
+
+  it('counts what the positions a new round drops collected as paid out', () => {
+    const start = processDeposit(createEngineState(config, { seed: 1 }), config, { amount: 100 }).state;
+    const checker = createInvariantChecker(start);
+    const { state, events } = startNextRound(start, config);
+
+    expect(checker.check(events, state)).toBeNull();
+    expect(checker.breakdown().paidOut).toBeCloseTo(95, 6);
+  });
+
+  it('accepts reserve top-ups declared as external funds', () => {
+    const start = createEngineState(config, { seed: 1 });
+    const checker = createInvariantChecker(start);
+    checker.addExternalFunds(5000);
+    const { state, events } = processDeposit({ ...start, protocolBalance: start.protocolBalance + 5000 }, config, { amount: 100 });
+
+    expect(checker.check(events, state)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { EngineEvent, EngineState, FundsBreakdown, InvariantViolation } from '../types';
+
+// Absolute slack for float noise, plus a relative part so long runs with big volumes don't trip on rounding
+export const FUNDS_TOLERANCE = 0.01;
+const RELATIVE_TOLERANCE = 1e-9;
+const VIOLATION_BUFFER_SIZE = 50;
+
+export interface InvariantChecker {
+  // Call after every engine step; returns the violation it found, if any
+  check: (events: EngineEvent[], state: EngineState) => InvariantViolation | null;
+  // Money put in from outside the engine (e.g. topping up the reserve by hand)
+  addExternalFunds: (amount: number) => void;
+  breakdown: () => FundsBreakdown;
+  violations: () => readonly InvariantViolation[]; // Most recent first
+  violationCount: () => number;
+}
+
+const queueCollected = (state: EngineState) => state.queue.reduce((acc, p) => acc + p.collected, 0);
+
+/*
+ * Conservation of funds: every real dollar that entered (opening balances, depositor money, reinvests)
+ * must still be somewhere: in a queued position, paid out, in the reserve, the jackpot pool or the operator's take.
+ * Fees are not a separate bucket because the engine routes every one of them into those.
+ * PROTOCOL_SEED and JACKPOT_BOT deposits are not inflows: no cash backs them.
+ */
+export const createInvariantChecker = (opening: EngineState, tolerance = FUNDS_TOLERANCE): InvariantChecker => {
+  let inflows = opening.protocolBalance + opening.jackpotBalance + opening.operatorBalance + queueCollected(opening);
+  let paidOut = 0;
+  let lastDrift = 0;
+  let count = 0;
+  let recent: InvariantViolation[] = [];
+  let latest: FundsBreakdown = { inflows, queueCollected: queueCollected(opening), paidOut, reserve: opening.protocolBalance, jackpot: opening.jackpotBalance, operator: opening.operatorBalance, drift: 0 };
+
+  const check = (events: EngineEvent[], state: EngineState): InvariantViolation | null => {
+    for (const event of events) {
+      if (event.type === 'DEPOSIT' && event.playerId !== 'PROTOCOL_SEED') inflows += event.amount;
+      if (event.type === 'EXIT' || event.type === 'WRITE_OFF') paidOut += event.collected;
+      if (event.type === 'ROUND_START') paidOut += event.settledCollected;
+      if (event.type === 'EMERGENCY_EXIT') paidOut += event.refund;
+      if (event.type === 'JACKPOT_BOT_PROFIT') paidOut -= event.amount; // Back in the jackpot, which is counted as held
+    }
+
+    const held = queueCollected(state);
+    const drift = held + paidOut + state.protocolBalance + state.jackpotBalance + state.operatorBalance - inflows;
+    latest = { inflows, queueCollected: held, paidOut, reserve: state.protocolBalance, jackpot: state.jackpotBalance, operator: state.operatorBalance, drift };
+
+    const delta = drift - lastDrift;
+    lastDrift = drift;
+    if (Math.abs(delta) <= tolerance + RELATIVE_TOLERANCE * inflows) return null;
+
+    const violation: InvariantViolation = {
+      tick: state.elapsedTicks,
+      simulatedTime: state.clock,
+      round: state.gameRound,
+      delta,
+      drift,
+      eventTypes: Array.from(new Set(events.map(e => e.type)))
+    };
+    count++;
+    recent = [violation, ...recent].slice(0, VIOLATION_BUFFER_SIZE);
+    return violation;
+  };
+
+  return {
+    check,
+    addExternalFunds: amount => { inflows += amount; },
+    breakdown: () => latest,
+    violations: () => recent,
+    violationCount: () => count
+  };
+};
+
+export const describeViolation = (violation: InvariantViolation): string =>
+  `${violation.delta > 0 ? 'Created' : 'Lost'} $${Math.abs(violation.delta).toFixed(2)} during ${violation.eventTypes.join(' + ') || 'an empty step'}`;
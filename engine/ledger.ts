@@ -0,0 +1,114 @@
+import { EngineEvent, EngineState, LedgerEntry, LedgerEntryType, PayoutSource } from '../types';
+import { toCsv } from './csv';
+
+export interface Ledger {
+  observe: (events: EngineEvent[], state: EngineState) => void;
+  entries: () => readonly LedgerEntry[];
+}
+
+const PAYOUT_TYPES: Record<PayoutSource, LedgerEntryType> = {
+  HEAD: 'HEAD_PAYOUT',
+  DRIP: 'DRIP_PAYOUT',
+  REVERSE_YIELD: 'REVERSE_YIELD',
+  JACKPOT: 'JACKPOT_PAYOUT',
+  MIDNIGHT_REFUND: 'MIDNIGHT_REFUND',
+  FEE: 'FEE_PAYOUT'
+};
+
+// Append-only record of every flow, built from the event stream so nothing is lost to the engine's buffers.
+// Opens with the balances and positions of the starting state (fresh run or restored snapshot).
+export const createLedger = (opening: EngineState): Ledger => {
+  const entries: LedgerEntry[] = [];
+
+  const writer = (state: EngineState) =>
+    (type: LedgerEntryType, playerId: string | null, amount: number, extra: Pick<LedgerEntry, 'playerIds' | 'detail'> = {}) => {
+      entries.push({ seq: entries.length, tick: state.elapsedTicks, simulatedTime: state.clock, round: state.gameRound, type, playerId, amount, ...extra });
+    };
+
+  const seedDetail = (multiplier: number) => ({ detail: `x${multiplier.toFixed(4)}` });
+
+  const open = writer(opening);
+  open('OPENING_RESERVE', null, opening.protocolBalance);
+  if (opening.jackpotBalance !== 0) open('OPENING_JACKPOT', null, opening.jackpotBalance);
+  opening.queue.forEach(p => {
+    if (p.id === 'PROTOCOL_SEED' && p.collected === 0) open('SEED_DEPOSIT', p.id, p.deposit, seedDetail(p.multiplier));
+    else open('OPENING_POSITION', p.id, p.deposit, { detail: `collected ${p.collected.toFixed(2)} of ${p.target.toFixed(2)}` });
+  });
+
+  const observe = (events: EngineEvent[], state: EngineState) => {
+    const add = writer(state);
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'DEPOSIT': {
+          const type = event.playerId === 'PROTOCOL_SEED' ? 'SEED_DEPOSIT' : event.isReinvest ? 'REINVEST' : 'DEPOSIT';
+          add(type, event.playerId, event.amount, { detail: `x${event.multiplier.toFixed(4)}${event.isClient ? ' client' : ''}` });
+          break;
+        }
+        case 'FEE_SPLIT':
+          add('FEE_TO_RESERVE', event.playerId, event.toReserve);
+          add('FEE_TO_JACKPOT', event.playerId, event.toJackpot);
+          if (event.toOperator > 0) add('FEE_TO_OPERATOR', event.playerId, event.toOperator);
+          break;
+        case 'PAYOUT':
+          add(PAYOUT_TYPES[event.source], event.playerId, event.amount);
+          break;
+        case 'YIELD':
+          add('YIELD', null, event.amount, { playerIds: event.playerIds, detail: `${event.share.toFixed(6)} each` });
+          break;
+        case 'REINVEST_QUEUED':
+          add('REINVEST_QUEUED', event.playerId, event.amount);
+          break;
+        case 'JACKPOT_BOT':
+          add('JACKPOT_BOT_DEPOSIT', event.playerId, event.amount);
+          break;
+        case 'JACKPOT_BOT_PROFIT':
+          add('JACKPOT_BOT_PROFIT', event.playerId, event.amount);
+          break;
+        case 'DRIP':
+          add('DRIP', null, event.amount);
+          break;
+        case 'EXIT_TAX':
+          add('EXIT_TAX_TO_RESERVE', event.playerId, event.toReserve);
+          add('EXIT_TAX_TO_JACKPOT', event.playerId, event.toJackpot);
+          if (event.toOperator > 0) add('EXIT_TAX_TO_OPERATOR', event.playerId, event.toOperator);
+          break;
+        case 'EXIT':
+          add('EXIT', event.playerId, event.collected, { detail: event.reason });
+          break;
+        case 'EMERGENCY_EXIT':
+          add('EMERGENCY_REFUND', event.playerId, event.refund);
+          add('EMERGENCY_PENALTY', event.playerId, event.penalty);
+          break;
+        case 'WRITE_OFF':
+          add('WRITE_OFF', event.playerId, event.unpaid, { detail: `kept ${event.collected.toFixed(2)}` });
+          break;
+        case 'ROUND_END':
+          add('ROUND_END', null, 0, { detail: event.reason });
+          break;
+        case 'ROUND_START':
+          add('ROUND_START', null, 0);
+          // The engine places the new round's PROTOCOL_SEED position without a deposit event
+          state.queue.filter(p => p.id === 'PROTOCOL_SEED').forEach(p => add('SEED_DEPOSIT', p.id, p.deposit, seedDetail(p.multiplier)));
+          break;
+      }
+    }
+  };
+
+  return { observe, entries: () => entries };
+};
+
+export const ledgerToCsv = (entries: readonly LedgerEntry[]): string =>
+  toCsv(entries.map(entry => ({
+    seq: entry.seq,
+    tick: entry.tick,
+    simulatedTime: entry.simulatedTime,
+    round: entry.round,
+    type: entry.type,
+    playerId: entry.playerId,
+    amount: entry.amount,
+    playerIds: entry.playerIds?.join(' '),
+    detail: entry.detail
+  })));
+
+export const ledgerToJson = (entries: readonly LedgerEntry[]): string => JSON.stringify(entries, null, 2);
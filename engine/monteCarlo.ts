@@ -0,0 +1,76 @@
+import { BehaviorSettings, DistributionStrategy, MonteCarloReport, MonteCarloTrial, SimulationConfig } from '../types';
+import { runSimulation } from './runner';
+import { createOutcomeTracker, OutcomeTracker } from './outcomes';
+import { computeHealthMetrics, isParticipant } from './simulationEngine';
+import { summarizeDistribution } from './statistics';
+import { settledDepositors } from './wealth';
+
+export interface MonteCarloOptions {
+  runs: number;
+  ticks: number;
+  baseSeed: number; // Run i uses baseSeed + i, so any single run can be replayed on its own
+  multiplier?: number;
+  strategy?: DistributionStrategy;
+  behavior?: BehaviorSettings;
+}
+
+export const trialSeed = (options: MonteCarloOptions, index: number) => options.baseSeed + index;
+
+export const runMonteCarloTrial = (config: SimulationConfig, options: MonteCarloOptions, index: number): MonteCarloTrial => {
+  let tracker = null as OutcomeTracker | null;
+  const trappedAtRoundEnd: number[] = [];
+  const healthAtRoundEnd: number[] = [];
+
+  const { summary, finalState } = runSimulation(config, {
+    ticks: options.ticks,
+    seed: trialSeed(options, index),
+    multiplier: options.multiplier,
+    strategy: options.strategy,
+    behavior: options.behavior,
+    sampleEvery: options.ticks, // Series is not needed here, keep memory flat
+    onStart: state => { tracker = createOutcomeTracker(state); },
+    onEvents: (events, state) => {
+      tracker?.observe(events, state);
+      if (events.some(e => e.type === 'ROUND_END')) {
+        // Refunded and jackpot-paid positions are settled; the seed and bots are the protocol's own
+        trappedAtRoundEnd.push(state.queue.filter(p => !p.exitReason && isParticipant(p)).length);
+        healthAtRoundEnd.push(computeHealthMetrics(state.queue, state.protocolBalance, config).healthFactor);
+      }
+    }
+  });
+
+  if (!tracker) throw new Error('Run finished without starting');
+  const depositors = settledDepositors(tracker.finalize(finalState));
+  return {
+    seed: summary.seed,
+    summary,
+    trappedAtRoundEnd,
+    healthAtRoundEnd,
+    depositors: depositors.length,
+    losingDepositors: depositors.filter(o => o.netProfit < 0).length
+  };
+};
+
+export const aggregateMonteCarlo = (trials: MonteCarloTrial[], ticks: number): MonteCarloReport => {
+  const roundEndReasons = { TIMER: 0, CAP_REACHED: 0 };
+  trials.forEach(t => {
+    roundEndReasons.TIMER += t.summary.roundEndReasons.TIMER;
+    roundEndReasons.CAP_REACHED += t.summary.roundEndReasons.CAP_REACHED;
+  });
+
+  return {
+    runs: trials.length,
+    ticks,
+    trials,
+    trappedAtRoundEnd: summarizeDistribution(trials.flatMap(t => t.trappedAtRoundEnd)),
+    finalProtocolBalance: summarizeDistribution(trials.map(t => t.summary.protocolBalance)),
+    losingShare: summarizeDistribution(trials.map(t => t.depositors > 0 ? t.losingDepositors / t.depositors : 0)),
+    roundEndReasons
+  };
+};
+
+export const runMonteCarlo = (config: SimulationConfig, options: MonteCarloOptions): MonteCarloReport => {
+  const trials: MonteCarloTrial[] = [];
+  for (let i = 0; i < options.runs; i++) trials.push(runMonteCarloTrial(config, options, i));
+  return aggregateMonteCarlo(trials, options.ticks);
+};
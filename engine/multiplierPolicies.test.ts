@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { EngineState, MultiplierPolicyId, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { MULTIPLIER_POLICIES, defaultMultiplierParams, multiplierFor } from './multiplierPolicies';
+import { parseConfigOverrides } from './scenario';
+import { createEngineState, startNextRound } from './simulationEngine';
+import { player } from './testHelpers';
+
+const queueOf = (length: number) => Array.from({ length }, (_, i) => player(`p${i}`, 100));
+
+const configFor = (policy: MultiplierPolicyId, params: Record<string, number> = {}): SimulationConfig =>
+  ({ ...DEFAULT_CONFIG, multiplierPolicy: { policy, params } });
+
+const multiplier = (policy: MultiplierPolicyId, fields: Partial<EngineState>, params: Record<string, number> = {}) => {
+  const config = configFor(policy, params);
+  return multiplierFor({ ...createEngineState(config, { seed: 1, multiplier: 1.7 }), ...fields }, config);
+};
+
+describe('multiplier policies', () => {
+  it('give every parameter a default inside its own range', () => {
+    Object.values(MULTIPLIER_POLICIES).forEach(policy => {
+      Object.values(policy.params).forEach(info => {
+        expect(info.defaultValue).toBeGreaterThanOrEqual(info.min);
+        expect(info.defaultValue).toBeLessThanOrEqual(info.max);
+      });
+      expect(Object.keys(defaultMultiplierParams(policy.id))).toEqual(Object.keys(policy.params));
+    });
+  });
+
+  it('fixed uses the state multiplier whatever the queue does', () => {
+    expect(multiplier('FIXED', { queue: queueOf(500), healthFactor: 0 })).toBe(1.7);
+  });
+
+  it('linear decay drops a fixed amount per queued position down to the floor', () => {
+    expect(multiplier('LINEAR_DECAY', { queue: queueOf(100) }, { slope: 0.003 })).toBeCloseTo(1.7, 10);
+    expect(multiplier('LINEAR_DECAY', { queue: queueOf(1000) })).toBe(1.1);
+  });
+
+  it('health indexed runs from the floor at zero health to the ceiling at full health', () => {
+    expect(multiplier('HEALTH_INDEXED', { healthFactor: 0 })).toBe(1.1);
+    expect(multiplier('HEALTH_INDEXED', { healthFactor: 0.25 }, { fullHealth: 0.5 })).toBeCloseTo(1.55, 10);
+    expect(multiplier('HEALTH_INDEXED', { healthFactor: 3 })).toBe(2.0);
+  });
+
+  it('reserve coverage compares the reserve with the profit still promised to the queue', () => {
+    // Two positions promised 100 profit each; one is already past its principal
+    const queue = [player('a', 100), player('b', 100, { collected: 150 })];
+    expect(multiplier('RESERVE_COVERAGE', { queue, protocolBalance: 75 })).toBeCloseTo(1.1 + 0.9 * 0.5, 10);
+    expect(multiplier('RESERVE_COVERAGE', { queue: [], protocolBalance: 0 })).toBe(2.0);
+  });
+
+  it('time in round falls from the ceiling to the floor over the decay window', () => {
+    const hour = 3600 * 1000;
+    expect(multiplier('TIME_IN_ROUND', { clock: 0, roundStartTime: 0 })).toBe(2.0);
+    expect(multiplier('TIME_IN_ROUND', { clock: 10 * hour, roundStartTime: 4 * hour }, { decayHours: 12 })).toBeCloseTo(1.55, 10);
+    expect(multiplier('TIME_IN_ROUND', { clock: 30 * hour, roundStartTime: 0 })).toBe(1.1);
+  });
+
+  it('time in round restarts with each round', () => {
+    const config = configFor('TIME_IN_ROUND');
+    const next = startNextRound({ ...createEngineState(config, { seed: 1 }), clock: 30 * 3600 * 1000 }, config).state;
+    expect(next.roundStartTime).toBe(next.clock);
+    expect(multiplierFor(next, config)).toBe(2.0);
+  });
+});
+
+describe('legacy multiplier config', () => {
+  it('maps the old decay and Target 100 fields onto policies', () => {
+    expect(parseConfigOverrides({ decayStrategyEnabled: true, decayRate: 0.01, target100Enabled: false }).multiplierPolicy)
+      .toEqual({ policy: 'LOGISTIC_DECAY', params: { decayRate: 0.01 } });
+    expect(parseConfigOverrides({ decayStrategyEnabled: true, target100Enabled: true, target100MinMultiplier: 1.3, decayRate: 0.01 }).multiplierPolicy)
+      .toEqual({ policy: 'TARGET_100', params: { floor: 1.3 } });
+    expect(parseConfigOverrides({ decayStrategyEnabled: false }).multiplierPolicy.policy).toBe('FIXED');
+  });
+
+  it('rejects unknown policies and parameters', () => {
+    expect(() => parseConfigOverrides({ multiplierPolicy: { policy: 'MOON' } })).toThrow('unknown multiplier policy "MOON"');
+    expect(() => parseConfigOverrides({ multiplierPolicy: { policy: 'FIXED', params: { slope: 1 } } })).toThrow('FIXED has no parameter "slope"');
+  });
+});
@@ -0,0 +1,146 @@
+import { EngineState, MultiplierPolicyId, MultiplierSettings, SimulationConfig } from '../types';
+import { BehaviorParamInfo } from './behaviors';
+
+// What a policy sees when a deposit arrives: the queue before the new position joins
+export interface MultiplierContext {
+  state: EngineState; // Read it, never write it
+  config: SimulationConfig;
+  params: Record<string, number>;
+}
+
+export interface MultiplierPolicy {
+  id: MultiplierPolicyId;
+  label: string;
+  description: string;
+  params: Record<string, BehaviorParamInfo>;
+  multiplier: (ctx: MultiplierContext) => number; // Before break-even draws
+}
+
+const HOUR_MS = 3600 * 1000;
+
+const FLOOR: BehaviorParamInfo = { label: 'Floor', min: 1.0, max: 1.5, step: 0.05, defaultValue: 1.1 };
+const CEILING: BehaviorParamInfo = { label: 'Ceiling', min: 1.1, max: 2.0, step: 0.05, defaultValue: 2.0 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Floor at t = 0, ceiling at t = 1
+const between = (params: Record<string, number>, t: number) =>
+  params.floor + (params.ceiling - params.floor) * clamp(t, 0, 1);
+
+const FIXED: MultiplierPolicy = {
+  id: 'FIXED',
+  label: 'Fixed',
+  description: 'Every position gets the Fixed Multiplier slider value.',
+  params: {},
+  multiplier: ctx => ctx.state.multiplier
+};
+
+const LOGISTIC_DECAY: MultiplierPolicy = {
+  id: 'LOGISTIC_DECAY',
+  label: 'Logistic Queue Decay',
+  description: 'floor + (ceiling − floor) / (1 + decay × queue length), clamped hard while health is critical.',
+  params: {
+    decayRate: { label: 'Decay / User', min: 0.001, max: 0.05, step: 0.001, defaultValue: 0.005 },
+    floor: FLOOR,
+    ceiling: CEILING,
+    criticalHealth: { label: 'Critical Health', min: 0, max: 0.5, step: 0.01, defaultValue: 0.1 },
+    criticalCap: { label: 'Critical Cap', min: 1.0, max: 2.0, step: 0.05, defaultValue: 1.25 }
+  },
+  multiplier: ({ state, params }) => {
+    let decayed = params.floor + (params.ceiling - params.floor) / (1 + state.queue.length * params.decayRate);
+    if (state.healthFactor < params.criticalHealth) decayed = Math.min(decayed, params.criticalCap);
+    return Math.max(params.floor, decayed);
+  }
+};
+
+const LINEAR_DECAY: MultiplierPolicy = {
+  id: 'LINEAR_DECAY',
+  label: 'Linear Queue Decay',
+  description: 'Ceiling minus a fixed amount per queued position, down to the floor.',
+  params: {
+    slope: { label: 'Drop / User', min: 0.0005, max: 0.02, step: 0.0005, defaultValue: 0.003 },
+    floor: FLOOR,
+    ceiling: CEILING
+  },
+  multiplier: ({ state, params }) => clamp(params.ceiling - params.slope * state.queue.length, params.floor, params.ceiling)
+};
+
+const HEALTH_INDEXED: MultiplierPolicy = {
+  id: 'HEALTH_INDEXED',
+  label: 'Health Indexed',
+  description: 'Scales with reserve / liability: the floor at zero health, the ceiling once health reaches the full-health mark.',
+  params: {
+    fullHealth: { label: 'Full Health', min: 0.05, max: 2, step: 0.05, defaultValue: 0.5 },
+    floor: FLOOR,
+    ceiling: CEILING
+  },
+  multiplier: ({ state, params }) => between(params, state.healthFactor / params.fullHealth)
+};
+
+const RESERVE_COVERAGE: MultiplierPolicy = {
+  id: 'RESERVE_COVERAGE',
+  label: 'Reserve Coverage',
+  description: 'Scales with how much of the profit already promised to the queue the reserve could pay.',
+  params: {
+    fullCoverage: { label: 'Full Coverage', min: 0.1, max: 2, step: 0.05, defaultValue: 1 },
+    floor: FLOOR,
+    ceiling: CEILING
+  },
+  multiplier: ({ state, params }) => {
+    const promisedProfit = state.queue.reduce((acc, p) => acc + Math.max(0, p.target - Math.max(p.deposit, p.collected)), 0);
+    if (promisedProfit <= 0) return params.ceiling;
+    return between(params, state.protocolBalance / promisedProfit / params.fullCoverage);
+  }
+};
+
+const TIME_IN_ROUND: MultiplierPolicy = {
+  id: 'TIME_IN_ROUND',
+  label: 'Time in Round',
+  description: 'Early entrants get the ceiling; it falls linearly to the floor over the decay window.',
+  params: {
+    decayHours: { label: 'Decay Window (h)', min: 1, max: 48, step: 1, defaultValue: 12 },
+    floor: FLOOR,
+    ceiling: CEILING
+  },
+  multiplier: ({ state, params }) => between(params, 1 - (state.clock - state.roundStartTime) / (params.decayHours * HOUR_MS))
+};
+
+const TARGET_100: MultiplierPolicy = {
+  id: 'TARGET_100',
+  label: 'Target 100',
+  description: 'Nudges the last multiplier down while the queue is longer than the target, up while shorter.',
+  params: {
+    queueTarget: { label: 'Queue Target', min: 20, max: 500, step: 10, defaultValue: 100 },
+    step: { label: 'Max Step / Deposit', min: 0.005, max: 0.1, step: 0.005, defaultValue: 0.02 },
+    floor: FLOOR,
+    ceiling: CEILING
+  },
+  multiplier: ({ state, params }) => {
+    const error = (state.queue.length - params.queueTarget) / Math.max(1, params.queueTarget);
+    return clamp(state.currentAdaptiveMultiplier - params.step * clamp(error, -1, 1), params.floor, params.ceiling);
+  }
+};
+
+export const MULTIPLIER_POLICIES: Record<MultiplierPolicyId, MultiplierPolicy> = {
+  FIXED,
+  LOGISTIC_DECAY,
+  LINEAR_DECAY,
+  HEALTH_INDEXED,
+  RESERVE_COVERAGE,
+  TIME_IN_ROUND,
+  TARGET_100
+};
+
+export const defaultMultiplierParams = (policy: MultiplierPolicyId): Record<string, number> => {
+  const params: Record<string, number> = {};
+  Object.entries(MULTIPLIER_POLICIES[policy].params).forEach(([key, info]) => { params[key] = info.defaultValue; });
+  return params;
+};
+
+export const resolveMultiplierParams = (settings: MultiplierSettings): Record<string, number> => ({
+  ...defaultMultiplierParams(settings.policy),
+  ...settings.params
+});
+
+export const multiplierFor = (state: EngineState, config: SimulationConfig): number =>
+  MULTIPLIER_POLICIES[config.multiplierPolicy.policy].multiplier({ state, config, params: resolveMultiplierParams(config.multiplierPolicy) });
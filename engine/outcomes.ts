@@ -0,0 +1,127 @@
+import { EngineEvent, EngineState, FundingSource, Player, PlayerOutcome } from '../types';
+
+export interface OutcomeTracker {
+  observe: (events: EngineEvent[], state: EngineState) => void;
+  // Every outcome seen so far, plus the still-open positions of an active round
+  finalize: (state: EngineState) => PlayerOutcome[];
+}
+
+type Funding = Record<FundingSource, number>;
+
+const emptyFunding = (): Funding => ({ DEPOSITS: 0, INITIAL_RESERVE: 0, FEES: 0, JACKPOT: 0 });
+
+// The engine only keeps the last few exits, so long runs follow the event stream instead.
+// Credits are traced to their origin; reserve payouts are split pro rata between what is left
+// of the opening reserve and what fees and penalties have added to it.
+export const createOutcomeTracker = (opening: EngineState): OutcomeTracker => {
+  const outcomes: PlayerOutcome[] = [];
+  const reinvestIds = new Set<string>();
+  const entries = new Map<string, { index: number; time: number }>(); // Unsettled organic positions
+  const funding = new Map<string, Funding>(); // Unsettled positions
+  const reserve = { initial: opening.protocolBalance, fees: 0 };
+  let organicDeposits = 0;
+
+  const isOrganic = (playerId: string) =>
+    !playerId.startsWith('PROTOCOL') && !playerId.startsWith('JACKPOT_BOT') && !reinvestIds.has(playerId);
+
+  const fund = (playerId: string, source: FundingSource, amount: number) => {
+    const current = funding.get(playerId);
+    if (current) current[source] += amount;
+    else funding.set(playerId, { ...emptyFunding(), [source]: amount });
+  };
+
+  const fundFromReserve = (playerId: string, amount: number) => {
+    const pool = reserve.initial + reserve.fees;
+    const initialShare = pool > 0 ? reserve.initial / pool : 0;
+    fund(playerId, 'INITIAL_RESERVE', amount * initialShare);
+    fund(playerId, 'FEES', amount * (1 - initialShare));
+    reserve.initial = Math.max(0, reserve.initial - amount * initialShare);
+    reserve.fees = Math.max(0, reserve.fees - amount * (1 - initialShare));
+  };
+
+  // Yield can overshoot a target before the engine clamps it; only what was kept counts
+  const takeFunding = (playerId: string, collected: number): Funding => {
+    const result = funding.get(playerId) ?? emptyFunding();
+    funding.delete(playerId);
+    const total = result.DEPOSITS + result.INITIAL_RESERVE + result.FEES + result.JACKPOT;
+    if (total > collected && total > 0) {
+      const scale = collected / total;
+      (Object.keys(result) as FundingSource[]).forEach(source => { result[source] *= scale; });
+    }
+    return result;
+  };
+
+  const settle = (playerId: string, fields: Omit<PlayerOutcome, 'playerId' | 'isOrganic' | 'entryIndex' | 'entryTime' | 'funding'>) => {
+    const entry = entries.get(playerId);
+    entries.delete(playerId);
+    outcomes.push({ playerId, isOrganic: isOrganic(playerId), entryIndex: entry?.index ?? null, entryTime: entry?.time ?? null, funding: takeFunding(playerId, fields.collected), ...fields });
+  };
+
+  const queued = (p: Player, open: boolean, now: number): PlayerOutcome => ({
+    playerId: p.id,
+    deposit: p.deposit,
+    collected: p.collected,
+    netProfit: p.collected - p.deposit,
+    outcome: open ? 'OPEN' : p.exitReason === 'REFUND' ? 'REFUND' : p.exitReason === 'JACKPOT_WIN' ? 'JACKPOT_WIN' : 'TRAPPED',
+    isOrganic: isOrganic(p.id),
+    entryIndex: entries.get(p.id)?.index ?? null,
+    entryTime: p.timestamp,
+    exitTime: open ? null : now,
+    funding: open ? { ...(funding.get(p.id) ?? emptyFunding()) } : takeFunding(p.id, p.collected)
+  });
+
+  const observe = (events: EngineEvent[], state: EngineState) => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'DEPOSIT':
+          if (event.isReinvest) reinvestIds.add(event.playerId);
+          else if (isOrganic(event.playerId)) entries.set(event.playerId, { index: organicDeposits++, time: state.clock });
+          break;
+        case 'FEE_SPLIT':
+        case 'EXIT_TAX':
+          reserve.fees += event.toReserve;
+          break;
+        case 'PAYOUT':
+          if (event.source === 'HEAD') fund(event.playerId, 'DEPOSITS', event.amount);
+          else if (event.source === 'JACKPOT') fund(event.playerId, 'JACKPOT', event.amount);
+          else if (event.source === 'FEE') fund(event.playerId, 'FEES', event.amount);
+          else fundFromReserve(event.playerId, event.amount);
+          break;
+        case 'YIELD':
+          event.playerIds.forEach(id => fund(id, 'DEPOSITS', event.share));
+          break;
+        case 'EXIT':
+          settle(event.playerId, {
+            deposit: event.collected - event.netProfit,
+            collected: event.collected,
+            netProfit: event.netProfit,
+            outcome: event.reason === 'REFUND' ? 'REFUND' : 'PAID',
+            exitTime: state.clock
+          });
+          break;
+        case 'EMERGENCY_EXIT':
+          reserve.fees += event.penalty;
+          settle(event.playerId, {
+            deposit: event.refund + event.penalty,
+            collected: event.refund,
+            netProfit: -event.penalty,
+            outcome: 'EARLY_EXIT',
+            exitTime: state.clock
+          });
+          break;
+        case 'ROUND_END':
+          // Whoever is still queued now is dropped when the next round opens, unless carried over
+          state.queue.filter(p => !p.carriedOver).forEach(p => {
+            outcomes.push(queued(p, false, state.clock));
+            entries.delete(p.id);
+          });
+          break;
+      }
+    }
+  };
+
+  const finalize = (state: EngineState) =>
+    [...outcomes, ...state.queue.filter(p => state.roundActive || p.carriedOver).map(p => queued(p, true, state.clock))];
+
+  return { observe, finalize };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { emptyPayouts, paidToUsers, participantClass, payoutsToCsv, totalPayouts } from './payouts';
+import { handleEmergencyWithdraw, processDeposit, startNextRound, triggerRoundEnd } from './simulationEngine';
+import { config, player, stateWith } from './testHelpers';
+
+describe('participantClass', () => {
+  it('tells protocol, bot, reinvest, client and organic positions apart', () => {
+    expect(participantClass(player('PROTOCOL_SEED', 1000))).toBe('PROTOCOL_SEED');
+    expect(participantClass(player('JACKPOT_BOT_12', 500))).toBe('JACKPOT_BOT');
+    expect(participantClass(player('CLIENT_x', 100, { isClientDeposit: true, isReinvest: true }))).toBe('REINVEST');
+    expect(participantClass(player('CLIENT_y', 100, { isClientDeposit: true }))).toBe('CLIENT');
+    expect(participantClass(player('abc', 100))).toBe('ORGANIC');
+  });
+});
+
+describe('payout accounting', () => {
+  it('records what a finished position collected, not its nominal target', () => {
+    const start = stateWith([player('a', 100, { collected: 150 }), player('JACKPOT_BOT_1', 100, { collected: 190 })]);
+    const { state } = processDeposit(start, config, { amount: 100 }); // 95 net: 50 to a, 10 to the bot
+
+    expect(state.payouts.byReason.PAID).toBeCloseTo(400);
+    expect(state.payouts.byClass).toMatchObject({ ORGANIC: 200, JACKPOT_BOT: 200 });
+    expect(paidToUsers(state.payouts)).toBeCloseTo(200);
+  });
+
+  it('books unlucky break-even exits as refunds', () => {
+    const start = stateWith([player('a', 100, { target: 100, multiplier: 1, isUnlucky: true, collected: 90 })]);
+    const { state } = processDeposit(start, config, { amount: 100 });
+    expect(state.payouts.byReason).toMatchObject({ PAID: 0, REFUND: 100 });
+  });
+
+  it('counts the emergency refund, not the deposit', () => {
+    const start = stateWith([player('a', 100, { collected: 30, isClientDeposit: true })], { healthFactor: 1 });
+    const { state } = handleEmergencyWithdraw(start, config, 'a');
+    expect(state.payouts.byReason.EARLY_EXIT).toBe(80);
+    expect(state.payouts.byClass.CLIENT).toBe(80);
+  });
+
+  it('settles refunded and jackpot-winning positions at round end and leaves trapped ones out', () => {
+    const start = stateWith(
+      [player('first', 100, { collected: 40 }), player('trapped', 100), player('last', 100)],
+      { protocolBalance: 60, jackpotBalance: 200, lastDepositorId: 'last' }
+    );
+    const { state } = triggerRoundEnd(start, config, 'TIMER');
+
+    expect(state.payouts.byReason).toMatchObject({ REFUND: 100, JACKPOT_WIN: 100 });
+    expect(totalPayouts(state.payouts)).toBe(200);
+  });
+
+  it('books what written-off positions kept when the next round opens', () => {
+    const start = stateWith([player('PROTOCOL_SEED', 1000, { collected: 1000 }), player('a', 100, { collected: 30 }), player('CLIENT_b', 100, { collected: 70, isClientDeposit: true })]);
+    const { state } = startNextRound(start, config);
+
+    expect(state.payouts.byReason.WRITE_OFF).toBe(100);
+    expect(state.payouts.byClass).toMatchObject({ ORGANIC: 30, CLIENT: 70, PROTOCOL_SEED: 0 });
+  });
+
+  it('exports one CSV row per reason and per class', () => {
+    const lines = payoutsToCsv(emptyPayouts()).trim().split('\n');
+    expect(lines[0]).toBe('group,key,amount');
+    expect(lines).toHaveLength(12);
+    expect(lines).toContain('reason,WRITE_OFF,0');
+    expect(lines).toContain('class,PROTOCOL_SEED,0');
+  });
+});
@@ -0,0 +1,43 @@
+import { ParticipantClass, PayoutBreakdown, PayoutReason, Player } from '../types';
+import { toCsv } from './csv';
+
+export const PAYOUT_REASONS: PayoutReason[] = ['PAID', 'REFUND', 'SLASHED', 'JACKPOT_WIN', 'EARLY_EXIT', 'WRITE_OFF'];
+export const PARTICIPANT_CLASSES: ParticipantClass[] = ['ORGANIC', 'CLIENT', 'REINVEST', 'JACKPOT_BOT', 'PROTOCOL_SEED'];
+
+// Classes whose payouts reach real people; bots and the seed recycle protocol money, reinvests re-pay earlier winnings
+const USER_CLASSES: ParticipantClass[] = ['ORGANIC', 'CLIENT'];
+
+export const emptyPayouts = (): PayoutBreakdown => ({
+  byReason: { PAID: 0, REFUND: 0, SLASHED: 0, JACKPOT_WIN: 0, EARLY_EXIT: 0, WRITE_OFF: 0 },
+  byClass: { ORGANIC: 0, CLIENT: 0, REINVEST: 0, JACKPOT_BOT: 0, PROTOCOL_SEED: 0 }
+});
+
+export const clonePayouts = (payouts: PayoutBreakdown): PayoutBreakdown => ({
+  byReason: { ...payouts.byReason },
+  byClass: { ...payouts.byClass }
+});
+
+export const participantClass = (p: Player): ParticipantClass => {
+  if (p.id === 'PROTOCOL_SEED') return 'PROTOCOL_SEED';
+  if (p.id.startsWith('JACKPOT_BOT')) return 'JACKPOT_BOT';
+  if (p.isReinvest) return 'REINVEST';
+  if (p.isClientDeposit) return 'CLIENT';
+  return 'ORGANIC';
+};
+
+// Mutates: only called on engine-owned (cloned) state
+export const recordPayout = (payouts: PayoutBreakdown, p: Player, reason: PayoutReason, amount: number) => {
+  payouts.byReason[reason] += amount;
+  payouts.byClass[participantClass(p)] += amount;
+};
+
+export const paidToUsers = (payouts: PayoutBreakdown): number =>
+  USER_CLASSES.reduce((acc, c) => acc + payouts.byClass[c], 0);
+
+export const totalPayouts = (payouts: PayoutBreakdown): number =>
+  PAYOUT_REASONS.reduce((acc, r) => acc + payouts.byReason[r], 0);
+
+export const payoutsToCsv = (payouts: PayoutBreakdown): string => toCsv([
+  ...PAYOUT_REASONS.map(reason => ({ group: 'reason', key: reason, amount: payouts.byReason[reason] })),
+  ...PARTICIPANT_CLASSES.map(c => ({ group: 'class', key: c, amount: payouts.byClass[c] }))
+]);
@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Anything carrying a PRNG cursor (EngineState does)
+export interface RandomSource {
+  rngState: number;
+}
+
+// Fresh seed for a new run; the only place allowed to use Math.random()
+export const randomSeed = (): number => Math.floor(Math.random() * 0x7fffffff);
+
+export const normalizeSeed = (seed: number): number => (Math.floor(Math.abs(seed)) % 0x7fffffff) | 0;
+
+// Mulberry32: tiny, fast and good enough for Monte Carlo style simulation
+export const nextRandom = (source: RandomSource): number => {
+  source.rngState = (source.rngState + 0x6d2b79f5) | 0;
+  let t = source.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomInt = (source: RandomSource, min: number, maxExclusive: number): number =>
+  Math.floor(nextRandom(source) * (maxExclusive - min)) + min;
+
+export const pickRandom = <T,>(source: RandomSource, items: T[]): T =>
+  items[Math.floor(nextRandom(source) * items.length)];
+
+// Knuth for small rates, normal approximation above that
+export const poisson = (source: RandomSource, lambda: number): number => {
+  if (lambda <= 0) return 0;
+  if (lambda > 30) {
+    const u = Math.max(nextRandom(source), 1e-12);
+    const v = nextRandom(source);
+    const gaussian = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * gaussian));
+  }
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = nextRandom(source);
+  while (p > limit) {
+    k++;
+    p *= nextRandom(source);
+  }
+  return k;
+};
+
+// UUID v4 formatted IDs drawn from the run's PRNG so replays produce identical players
+export const nextId = (source: RandomSource): string => {
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i += 4) {
+    const word = Math.floor(nextRandom(source) * 4294967296);
+    bytes[i] = word & 0xff;
+    bytes[i + 1] = (word >>> 8) & 0xff;
+    bytes[i + 2] = (word >>> 16) & 0xff;
+    bytes[i + 3] = (word >>> 24) & 0xff;
+  }
+  return uuidv4({ random: bytes });
+};
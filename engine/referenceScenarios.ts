@@ -0,0 +1,57 @@
+import { DistributionStrategy, Scenario } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_MULTIPLIER, DEFAULT_RUN_LENGTH } from './defaults';
+import { createScenario } from './scenario';
+
+// Bundled starting points, keyed by the id the CLI accepts for --scenario
+export const REFERENCE_SCENARIOS: Record<string, Scenario> = {
+  baseline: createScenario({
+    name: 'Baseline',
+    description: 'Default Admin settings with the classic bot traffic.',
+    config: DEFAULT_CONFIG,
+    multiplier: DEFAULT_MULTIPLIER,
+    strategy: DistributionStrategy.STANDARD,
+    behavior: { model: 'CLASSIC', params: {} },
+    seed: 42,
+    ticks: DEFAULT_RUN_LENGTH
+  }),
+  'herd-panic': createScenario({
+    name: 'Herd Panic Stress',
+    description: 'Thin reserve and contagious emergency exits. How fast does confidence unravel?',
+    config: { ...DEFAULT_CONFIG, initialReserve: 2000, dailyDripRate: 0.05 },
+    multiplier: DEFAULT_MULTIPLIER,
+    strategy: DistributionStrategy.STANDARD,
+    behavior: { model: 'HERD_PANIC', params: { contagion: 0.2, maxPanicRate: 2 } },
+    seed: 1337,
+    ticks: 10000
+  }),
+  'whale-season': createScenario({
+    name: 'Whale Season',
+    description: 'Frequent near-cap deposits against the sustainability tax.',
+    config: { ...DEFAULT_CONFIG, penaltyThreshold: 800, penaltyRate: 0.15 },
+    multiplier: DEFAULT_MULTIPLIER,
+    strategy: DistributionStrategy.STANDARD,
+    behavior: { model: 'WHALES', params: { whaleChance: 0.15 } },
+    seed: 2024,
+    ticks: DEFAULT_RUN_LENGTH
+  }),
+  'hype-fade': createScenario({
+    name: 'Hype and Fade',
+    description: 'Inflows peak on day one and then dry up, over several rounds.',
+    config: DEFAULT_CONFIG,
+    multiplier: DEFAULT_MULTIPLIER,
+    strategy: DistributionStrategy.STANDARD,
+    behavior: { model: 'HYPE_CYCLE', params: { peakRate: 2, peakHour: 24 } },
+    seed: 7,
+    ticks: 14400 // Ten simulated days at one minute per tick
+  }),
+  'infinity-loop': createScenario({
+    name: 'Infinity Loop',
+    description: 'Full flush with mandatory reinvest and no entry tax.',
+    config: { ...DEFAULT_CONFIG, penaltyEnabled: false, reinvestRate: 0.6 },
+    multiplier: DEFAULT_MULTIPLIER,
+    strategy: DistributionStrategy.INFINITY_LOOP,
+    behavior: { model: 'POISSON', params: {} },
+    seed: 99,
+    ticks: DEFAULT_RUN_LENGTH
+  })
+};
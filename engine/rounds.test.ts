@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { EngineState, RoundLog, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { roundSeries, roundsToCsv } from './rounds';
+import { samplePoint } from './series';
+import { createEngineState, processDeposit, startNextRound } from './simulationEngine';
+
+// Three depositors close the round on the transaction cap
+const config: SimulationConfig = { ...DEFAULT_CONFIG, multiplierPolicy: { policy: 'FIXED', params: {} }, penaltyEnabled: false, maxTransactions: 3 };
+
+const playRound = (start: EngineState): EngineState =>
+  [100, 200, 300].reduce((state, amount) => processDeposit(state, config, { amount }).state, start);
+
+describe('round detail', () => {
+  it('records the round\'s own volume, transactions and peak liability', () => {
+    const first = playRound(createEngineState(config, { seed: 1, multiplier: 2 }));
+    const second = playRound(startNextRound({ ...first, clock: 5000 }, config).state);
+
+    const log = second.roundHistory[1];
+    expect(log).toMatchObject({ roundNumber: 2, reason: 'CAP_REACHED', startTime: 5000, totalVolume: first.totalDeposited + 600 });
+    expect(log.accounting).toMatchObject({ deposited: 600, transactions: 3 });
+    // Seed 1100 + deposits 200 / 400 / 600 owed, less what the fees' head share paid down
+    expect(log.accounting!.peakLiability).toBeGreaterThan(1100 + 1200 - 600);
+    expect(log.accounting!.peakLiability).toBeLessThanOrEqual(1100 + 1200);
+    expect(log.settlement!.leftBelowBreakEven).toBe(second.queue.filter(p => p.collected < p.deposit).length);
+  });
+
+  it('starts each round\'s peak liability over', () => {
+    const first = playRound(createEngineState(config, { seed: 1, multiplier: 2 }));
+    const next = startNextRound(first, config).state;
+    expect(next.roundPeakLiability).toBe(next.currentLiability);
+  });
+
+  it('keeps only the chosen round\'s series points', () => {
+    const state = createEngineState(config, { seed: 1 });
+    const points = [1, 1, 2, 3].map((round, tick) => samplePoint({ ...state, gameRound: round }, tick, 0));
+    expect(roundSeries(points, 1).map(p => p.tick)).toEqual([0, 1]);
+  });
+
+  it('exports one CSV row per round and leaves missing detail empty', () => {
+    const old: RoundLog = { roundNumber: 1, finalBalance: 50, totalVolume: 1000, timestamp: 60000, reason: 'TIMER' };
+    const lines = roundsToCsv([old, ...playRound(createEngineState(config, { seed: 1 })).roundHistory]).trim().split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0].split(',').slice(0, 6)).toEqual(['round', 'reason', 'startSeconds', 'endSeconds', 'volume', 'transactions']);
+    expect(lines[1]).toBe('1,TIMER,,60,,,,,,,,,,,,,,50,1000');
+    expect(lines[2].split(',')[5]).toBe('3');
+  });
+});
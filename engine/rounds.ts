@@ -0,0 +1,30 @@
+import { RoundLog, SeriesPoint } from '../types';
+import { toCsv } from './csv';
+
+// Recorded points that belong to one round, for its drill-down charts
+export const roundSeries = (points: SeriesPoint[], roundNumber: number): SeriesPoint[] =>
+  points.filter(p => p.round === roundNumber);
+
+// One row per closed round; logs from before the per-round detail leave those cells empty
+export const roundsToCsv = (history: RoundLog[]): string =>
+  toCsv(history.map(log => ({
+    round: log.roundNumber,
+    reason: log.reason,
+    startSeconds: log.startTime === undefined ? null : log.startTime / 1000,
+    endSeconds: log.timestamp / 1000,
+    volume: log.accounting?.deposited,
+    transactions: log.accounting?.transactions,
+    jackpotPaid: log.settlement?.jackpotPaid,
+    jackpotWinners: log.settlement?.jackpotWinners.join(' '),
+    refunded: log.settlement?.refunded,
+    usersRefunded: log.settlement?.usersRefunded,
+    leftBelowBreakEven: log.settlement?.leftBelowBreakEven,
+    trappedPrincipal: log.settlement?.trappedPrincipal,
+    peakLiability: log.accounting?.peakLiability,
+    carriedIn: log.accounting?.carriedIn,
+    carriedOut: log.accounting?.carriedOut,
+    writtenOff: log.accounting?.writtenOff,
+    writtenOffPrincipal: log.accounting?.writtenOffPrincipal,
+    finalBalance: log.finalBalance,
+    totalVolume: log.totalVolume
+  })));
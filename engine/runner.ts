@@ -0,0 +1,82 @@
+import { BehaviorSettings, DistributionStrategy, EngineEvent, EngineState, RunSummary, SeriesPoint, SimulationConfig } from '../types';
+import { createEngineState, runTick, startNextRound } from './simulationEngine';
+import { paidToUsers } from './payouts';
+import { countExits, samplePoint } from './series';
+
+export interface RunOptions {
+  ticks: number;
+  seed?: number;
+  multiplier?: number;
+  strategy?: DistributionStrategy;
+  behavior?: BehaviorSettings;
+  sampleEvery?: number; // Record one series point every N ticks (default 1)
+  stopAtRoundEnd?: boolean; // Default: open the next round straight away, like pressing "Start Round"
+  onStart?: (state: EngineState) => void;
+  onEvents?: (events: EngineEvent[], state: EngineState) => void;
+}
+
+export interface RunResult {
+  summary: RunSummary;
+  series: SeriesPoint[];
+  finalState: EngineState;
+}
+
+export const summarizeRun = (state: EngineState, ticks: number): RunSummary => {
+  const roundEndReasons = { TIMER: 0, CAP_REACHED: 0 };
+  state.roundHistory.forEach(log => roundEndReasons[log.reason]++);
+
+  return {
+    seed: state.seed,
+    ticks,
+    simulatedTime: state.clock,
+    roundsCompleted: state.roundHistory.length,
+    roundEndReasons,
+    totalDeposited: state.totalDeposited,
+    totalPaidOut: paidToUsers(state.payouts),
+    payouts: state.payouts,
+    totalUsers: state.historyCount + state.queue.length,
+    usersPaidExit: state.historyCount,
+    usersTrapped: state.queue.length,
+    protocolBalance: state.protocolBalance,
+    jackpotBalance: state.jackpotBalance,
+    operatorBalance: state.operatorBalance,
+    usersWrittenOff: state.writtenOffUsers,
+    writtenOffPrincipal: state.writtenOffPrincipal,
+    finalLiability: state.currentLiability,
+    finalHealthFactor: state.healthFactor,
+    roundHistory: state.roundHistory
+  };
+};
+
+// Drives the same tick loop as the UI auto-run, minus the 200ms interval
+export const runSimulation = (config: SimulationConfig, options: RunOptions): RunResult => {
+  const sampleEvery = Math.max(1, Math.floor(options.sampleEvery ?? 1));
+  let state = createEngineState(config, {
+    seed: options.seed,
+    multiplier: options.multiplier,
+    strategy: options.strategy
+  });
+  const series: SeriesPoint[] = [samplePoint(state, 0, 0)];
+  options.onStart?.(state);
+
+  let tick = 0;
+  let exits = 0;
+  while (tick < options.ticks) {
+    tick++;
+    const result = runTick(state, config, options.behavior);
+    state = result.state;
+    exits += countExits(result.events);
+    options.onEvents?.(result.events, state);
+
+    if (tick % sampleEvery === 0) series.push(samplePoint(state, tick, exits));
+
+    if (!state.roundActive) {
+      if (options.stopAtRoundEnd) break;
+      const next = startNextRound(state, config);
+      state = next.state;
+      options.onEvents?.(next.events, state);
+    }
+  }
+
+  return { summary: summarizeRun(state, tick), series, finalState: state };
+};
@@ -0,0 +1,169 @@
+import { BehaviorModelId, BehaviorSettings, DistributionStrategy, MultiplierPolicyId, MultiplierSettings, Scenario, SimulationConfig } from '../types';
+import { BEHAVIOR_MODELS, DEFAULT_BEHAVIOR } from './behaviors';
+import { DEFAULT_CONFIG, DEFAULT_MULTIPLIER, DEFAULT_RUN_LENGTH } from './defaults';
+import { MULTIPLIER_POLICIES } from './multiplierPolicies';
+import { normalizeSeed, randomSeed } from './random';
+import { JACKPOT_POLICIES, REFUND_POLICIES } from './settlement';
+
+// Bump when a field changes meaning; parseScenario rejects files from newer versions
+export const SCENARIO_VERSION = 1;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseParams = (value: unknown, name: string, known: Record<string, unknown>, owner: string): Record<string, number> => {
+  const params: Record<string, number> = {};
+  if (value === undefined) return params;
+  if (!isObject(value)) throw new Error(`${name} must be a JSON object`);
+  Object.keys(value).forEach(key => {
+    const param = value[key];
+    if (!(key in known)) throw new Error(`${owner} has no parameter "${key}"`);
+    if (typeof param !== 'number' || !Number.isFinite(param)) throw new Error(`${name}.${key} must be a number`);
+    params[key] = param;
+  });
+  return params;
+};
+
+const parseMultiplierPolicy = (value: unknown): MultiplierSettings => {
+  if (!isObject(value)) throw new Error('config.multiplierPolicy must be a JSON object');
+  const policy = value.policy as MultiplierPolicyId;
+  if (!(policy in MULTIPLIER_POLICIES)) throw new Error(`unknown multiplier policy "${String(value.policy)}"`);
+  return { policy, params: parseParams(value.params, 'config.multiplierPolicy.params', MULTIPLIER_POLICIES[policy].params, policy) };
+};
+
+const FEE_ROUTING_FIELDS: (keyof SimulationConfig)[] = ['minimumFee', 'feeToReserve', 'feeToJackpot', 'feeToOperator', 'feeToQueue'];
+const SHARE_FIELDS: (keyof SimulationConfig)[] = ['jackpotPayoutShare', 'reserveCarryOver'];
+
+// Config fields from before multiplier policies, mapped to the policy parameter they became
+const LEGACY_MULTIPLIER_FIELDS: Record<string, [MultiplierPolicyId, string]> = {
+  decayRate: ['LOGISTIC_DECAY', 'decayRate'],
+  target100QueueTarget: ['TARGET_100', 'queueTarget'],
+  target100Step: ['TARGET_100', 'step'],
+  target100MinMultiplier: ['TARGET_100', 'floor'],
+  target100MaxMultiplier: ['TARGET_100', 'ceiling']
+};
+const LEGACY_MULTIPLIER_FLAGS = ['decayStrategyEnabled', 'target100Enabled'];
+
+// Target 100 won over decay when both flags were on; no flag keeps the base policy
+const legacyMultiplierPolicy = (value: Record<string, unknown>, base: MultiplierSettings): MultiplierSettings => {
+  LEGACY_MULTIPLIER_FLAGS.forEach(key => {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') throw new Error(`config.${key} must be a boolean`);
+  });
+  const policy: MultiplierPolicyId = value.target100Enabled === true ? 'TARGET_100'
+    : value.decayStrategyEnabled === true ? 'LOGISTIC_DECAY'
+    : value.decayStrategyEnabled === false ? 'FIXED'
+    : base.policy;
+  const params = policy === base.policy ? { ...base.params } : {};
+  Object.keys(LEGACY_MULTIPLIER_FIELDS).forEach(key => {
+    if (value[key] === undefined) return;
+    if (typeof value[key] !== 'number') throw new Error(`config.${key} must be a number`);
+    const [owner, param] = LEGACY_MULTIPLIER_FIELDS[key];
+    if (owner === policy) params[param] = value[key] as number;
+  });
+  return { policy, params };
+};
+
+// Partial SimulationConfig merged over a base, so older files pick up fields added later
+export const parseConfigOverrides = (value: unknown, base: SimulationConfig = DEFAULT_CONFIG): SimulationConfig => {
+  if (!isObject(value)) throw new Error('config must be a JSON object');
+  const config: Record<string, unknown> = { ...base };
+  const legacy = Object.keys(value).filter(key => LEGACY_MULTIPLIER_FLAGS.includes(key) || key in LEGACY_MULTIPLIER_FIELDS);
+  if (legacy.length > 0 && value.multiplierPolicy === undefined) config.multiplierPolicy = legacyMultiplierPolicy(value, base.multiplierPolicy);
+  Object.keys(value).forEach(key => {
+    if (legacy.includes(key)) return;
+    if (key === 'multiplierPolicy') {
+      config.multiplierPolicy = parseMultiplierPolicy(value[key]);
+      return;
+    }
+    if (!(key in DEFAULT_CONFIG)) throw new Error(`unknown config field "${key}"`);
+    const expected = typeof DEFAULT_CONFIG[key as keyof SimulationConfig];
+    if (typeof value[key] !== expected) throw new Error(`config.${key} must be a ${expected}`);
+    config[key] = value[key];
+  });
+  if (config.penaltyType !== 'ENTRY' && config.penaltyType !== 'EXIT') {
+    throw new Error('config.penaltyType must be "ENTRY" or "EXIT"');
+  }
+  FEE_ROUTING_FIELDS.forEach(key => {
+    if ((config[key] as number) < 0) throw new Error(`config.${key} must not be negative`);
+  });
+  if (!((config.jackpotPolicy as string) in JACKPOT_POLICIES)) throw new Error(`unknown jackpot policy "${String(config.jackpotPolicy)}"`);
+  if (!((config.refundPolicy as string) in REFUND_POLICIES)) throw new Error(`unknown refund policy "${String(config.refundPolicy)}"`);
+  if (config.trappedPolicy !== 'CARRY_OVER' && config.trappedPolicy !== 'WRITE_OFF') {
+    throw new Error('config.trappedPolicy must be "CARRY_OVER" or "WRITE_OFF"');
+  }
+  SHARE_FIELDS.forEach(key => {
+    const share = config[key] as number;
+    if (share < 0 || share > 1) throw new Error(`config.${key} must be between 0 and 1`);
+  });
+  if (!Number.isInteger(config.jackpotWinnerCount) || (config.jackpotWinnerCount as number) < 1) {
+    throw new Error('config.jackpotWinnerCount must be a whole number of at least 1');
+  }
+  return config as unknown as SimulationConfig;
+};
+
+const parseBehavior = (value: unknown): BehaviorSettings => {
+  if (value === undefined) return DEFAULT_BEHAVIOR;
+  if (!isObject(value)) throw new Error('behavior must be a JSON object');
+  const model = value.model as BehaviorModelId;
+  if (!(model in BEHAVIOR_MODELS)) throw new Error(`unknown behavior model "${String(value.model)}"`);
+
+  return { model, params: parseParams(value.params, 'behavior.params', BEHAVIOR_MODELS[model].params, model) };
+};
+
+const numberField = (value: unknown, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${name} must be a number`);
+  return value;
+};
+
+export const createScenario = (fields: Omit<Scenario, 'version'>): Scenario => ({
+  version: SCENARIO_VERSION,
+  ...fields
+});
+
+export const serializeScenario = (scenario: Scenario): string => JSON.stringify(scenario, null, 2);
+
+// Only `version` is required; anything else missing falls back to the defaults (seed: a fresh random one)
+export const validateScenario = (raw: unknown): Scenario => {
+  if (!isObject(raw)) throw new Error('scenario must be a JSON object');
+
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('missing or invalid "version"');
+  }
+  if (version > SCENARIO_VERSION) {
+    throw new Error(`scenario version ${version} is newer than this simulator supports (${SCENARIO_VERSION})`);
+  }
+
+  const strategy = (raw.strategy ?? DistributionStrategy.STANDARD) as DistributionStrategy;
+  if (!Object.values(DistributionStrategy).includes(strategy)) throw new Error(`unknown strategy "${String(raw.strategy)}"`);
+
+  const ticks = numberField(raw.ticks, 'ticks', DEFAULT_RUN_LENGTH);
+  if (!Number.isInteger(ticks) || ticks < 1) throw new Error('ticks must be a positive integer');
+
+  return {
+    version: SCENARIO_VERSION,
+    name: typeof raw.name === 'string' ? raw.name : 'Untitled scenario',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    config: parseConfigOverrides(raw.config ?? {}),
+    multiplier: numberField(raw.multiplier, 'multiplier', DEFAULT_MULTIPLIER),
+    strategy,
+    behavior: parseBehavior(raw.behavior),
+    seed: normalizeSeed(numberField(raw.seed, 'seed', randomSeed())),
+    ticks
+  };
+};
+
+export const parseScenario = (text: string): Scenario => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`not valid JSON: ${(error as Error).message}`);
+  }
+  return validateScenario(raw);
+};
+
+// File name for downloads, e.g. "Herd Panic Stress" -> "herd-panic-stress.scenario.json"
+export const scenarioFileName = (scenario: Scenario): string =>
+  `${scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario'}.scenario.json`;
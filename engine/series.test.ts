@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { EngineEvent, Player, SeriesPoint, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { createEngineState, processDeposit } from './simulationEngine';
+import { createSeriesRecorder, exitRates, trappedPrincipal } from './series';
+
+const exit: EngineEvent = { type: 'EXIT', playerId: 'p', reason: 'PAID', collected: 200, netProfit: 100 };
+
+describe('series recorder', () => {
+  it('halves its resolution instead of dropping the start of the run', () => {
+    const opening = createEngineState(DEFAULT_CONFIG, { seed: 1 });
+    const recorder = createSeriesRecorder(opening, 8);
+
+    for (let i = 1; i <= 40; i++) recorder.observe([], { ...opening, elapsedTicks: i });
+
+    const ticks = recorder.points().map(p => p.tick);
+    expect(recorder.stride()).toBe(8);
+    expect(ticks).toEqual([0, 8, 16, 24, 32, 40]);
+  });
+
+  it('keeps the live state at the end between recorded points', () => {
+    const opening = createEngineState(DEFAULT_CONFIG, { seed: 1 });
+    const recorder = createSeriesRecorder(opening, 4);
+
+    for (let i = 1; i <= 9; i++) recorder.observe([], { ...opening, elapsedTicks: i });
+
+    expect(recorder.stride()).toBe(4);
+    expect(recorder.points().map(p => p.tick)).toEqual([0, 4, 8, 9]);
+  });
+
+  it('derives exits per tick from the cumulative count', () => {
+    const opening = createEngineState(DEFAULT_CONFIG, { seed: 1 });
+    const recorder = createSeriesRecorder(opening, 4);
+
+    for (let i = 1; i <= 8; i++) recorder.observe(i % 2 === 0 ? [exit, exit] : [], { ...opening, elapsedTicks: i });
+
+    const points = recorder.points();
+    expect(points[points.length - 1].totalExits).toBe(8);
+    expect(exitRates(points)).toEqual([0, 1, 1]);
+  });
+
+  it('carries on from a saved series as if it had never stopped', () => {
+    const opening = createEngineState(DEFAULT_CONFIG, { seed: 1 });
+    const original = createSeriesRecorder(opening, 4);
+    for (let i = 1; i <= 9; i++) original.observe(i % 3 === 0 ? [exit] : [], { ...opening, elapsedTicks: i });
+
+    const restored = createSeriesRecorder({ ...opening, elapsedTicks: 9 }, 4, JSON.parse(JSON.stringify(original.save())));
+    expect(restored.points()).toEqual(original.points());
+
+    for (let i = 10; i <= 20; i++) {
+      [original, restored].forEach(recorder => recorder.observe(i % 3 === 0 ? [exit] : [], { ...opening, elapsedTicks: i }));
+    }
+    expect(restored.points()).toEqual(original.points());
+    expect(restored.stride()).toBe(original.stride());
+  });
+});
+
+describe('series metrics', () => {
+  it('counts only the part of a deposit not yet paid back as trapped', () => {
+    const queue = [
+      { deposit: 100, collected: 30 },
+      { deposit: 100, collected: 150 }
+    ] as Player[];
+    expect(trappedPrincipal(queue)).toBe(70);
+  });
+
+  it('reports the fixed multiplier when no adaptive strategy is on', () => {
+    const config: SimulationConfig = { ...DEFAULT_CONFIG, multiplierPolicy: { policy: 'FIXED', params: {} }, breakEvenChance: 0 };
+    const state = createEngineState(config, { seed: 1, multiplier: 3 });
+    expect(state.currentAdaptiveMultiplier).toBe(3);
+    expect(processDeposit(state, config, { amount: 100 }).state.currentAdaptiveMultiplier).toBe(3);
+  });
+
+  it('gives the first point no exit rate', () => {
+    expect(exitRates([{ tick: 0, totalExits: 0 } as SeriesPoint])).toEqual([0]);
+  });
+});
@@ -0,0 +1,70 @@
+import { EngineEvent, EngineState, Player, RecordedSeries, SeriesPoint } from '../types';
+
+export const SERIES_CAPACITY = 400;
+
+export interface SeriesRecorder {
+  observe: (events: EngineEvent[], state: EngineState) => void;
+  // Recorded points plus the live state, oldest first
+  points: () => SeriesPoint[];
+  stride: () => number; // Steps between recorded points
+  save: () => RecordedSeries;
+}
+
+// Principal still at risk: what queued positions have not yet got back of their deposit
+export const trappedPrincipal = (queue: Player[]): number =>
+  queue.reduce((acc, p) => acc + Math.max(0, p.deposit - p.collected), 0);
+
+export const countExits = (events: EngineEvent[]): number =>
+  events.filter(e => e.type === 'EXIT' || e.type === 'EMERGENCY_EXIT').length;
+
+export const samplePoint = (state: EngineState, tick: number, totalExits: number): SeriesPoint => ({
+  tick,
+  simulatedTime: state.clock,
+  round: state.gameRound,
+  totalDeposited: state.totalDeposited,
+  queueLength: state.queue.length,
+  protocolBalance: state.protocolBalance,
+  jackpotBalance: state.jackpotBalance,
+  liability: state.currentLiability,
+  healthFactor: state.healthFactor,
+  multiplier: state.currentAdaptiveMultiplier,
+  dynamicFee: state.dynamicFee,
+  totalExits,
+  trappedPrincipal: trappedPrincipal(state.queue)
+});
+
+// Exits per tick between consecutive points; survives downsampling because totalExits is cumulative
+export const exitRates = (points: SeriesPoint[]): number[] =>
+  points.map((p, i) => {
+    if (i === 0) return 0;
+    const ticks = p.tick - points[i - 1].tick;
+    return ticks > 0 ? (p.totalExits - points[i - 1].totalExits) / ticks : 0;
+  });
+
+// Keeps the whole run at bounded size: when full, every other point is dropped and the stride doubles.
+// Pass what was saved with a snapshot to carry on from it; opening must then be the snapshot's state.
+export const createSeriesRecorder = (opening: EngineState, capacity = SERIES_CAPACITY, saved?: RecordedSeries): SeriesRecorder => {
+  let recorded: SeriesPoint[] = saved ? [...saved.points] : [samplePoint(opening, opening.elapsedTicks, 0)];
+  let every = saved?.stride ?? 1;
+  let steps = saved?.steps ?? 0;
+  let totalExits = saved?.totalExits ?? 0;
+  let latest: SeriesPoint | null = steps % every === 0 ? null : samplePoint(opening, opening.elapsedTicks, totalExits);
+
+  const observe = (events: EngineEvent[], state: EngineState) => {
+    steps++;
+    totalExits += countExits(events);
+    latest = samplePoint(state, state.elapsedTicks, totalExits);
+    if (steps % every !== 0) return;
+
+    recorded.push(latest);
+    latest = null;
+    if (recorded.length > capacity) {
+      recorded = recorded.filter((_, i) => i % 2 === 0);
+      every *= 2;
+    }
+  };
+
+  const points = () => (latest ? [...recorded, latest] : [...recorded]);
+
+  return { observe, points, stride: () => every, save: () => ({ points: [...recorded], stride: every, steps, totalExits }) };
+};
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { Player, RefundPolicyId, SimulationConfig } from '../types';
+import { parseConfigOverrides } from './scenario';
+import { JACKPOT_POLICIES, REFUND_POLICIES, splitJackpot } from './settlement';
+import { createOutcomeTracker } from './outcomes';
+import { startNextRound, triggerRoundEnd } from './simulationEngine';
+import { config, player, stateWith } from './testHelpers';
+
+const refund = (policy: RefundPolicyId, queue: Player[], budget: number) => REFUND_POLICIES[policy].allocate(queue, budget);
+
+describe('refund policies', () => {
+  // Short of break-even by 60, 300 and 100; d already broke even
+  const queue = [player('a', 100, { collected: 40 }), player('b', 300), player('c', 100), player('d', 50, { collected: 60 })];
+
+  it('FIFO refunds in entry order', () => {
+    expect(refund('FIFO', queue, 200)).toEqual([60, 140, 0, 0]);
+  });
+
+  it('pro-rata gives every stuck position the same fraction of its missing principal', () => {
+    const amounts = refund('PRO_RATA', queue, 230);
+    expect(amounts.map(a => a / 230)).toEqual([60 / 460, 300 / 460, 100 / 460, 0].map(share => expect.closeTo(share, 10)));
+  });
+
+  it('smallest-first makes the smallest deposits whole first', () => {
+    expect(refund('SMALLEST_FIRST', queue, 200)).toEqual([60, 40, 100, 0]);
+  });
+
+  it('never refunds more than the budget or past break-even', () => {
+    Object.keys(REFUND_POLICIES).forEach(policy => {
+      [10, 460, 1e6].forEach(budget => {
+        const amounts = refund(policy as RefundPolicyId, queue, budget);
+        expect(amounts.reduce((acc, a) => acc + a, 0)).toBeLessThanOrEqual(budget + 1e-9);
+        amounts.forEach((amount, i) => expect(amount).toBeLessThanOrEqual(Math.max(0, queue[i].deposit - queue[i].collected) + 1e-9));
+      });
+    });
+  });
+});
+
+describe('jackpot policies', () => {
+  const queue = [player('PROTOCOL_SEED', 1000), player('a', 100), player('b', 300), player('JACKPOT_BOT_5', 500), player('c', 100, { isReinvest: true }), player('d', 100)];
+
+  it('last depositor picks the last depositor wherever it sits in the queue', () => {
+    expect(JACKPOT_POLICIES.LAST_DEPOSITOR.winners(queue, 'b', 10)).toEqual([2]);
+    expect(JACKPOT_POLICIES.LAST_DEPOSITOR.winners(queue, 'gone', 10)).toEqual([]);
+  });
+
+  it('last N skips the seed, jackpot bots and reinvests', () => {
+    expect(JACKPOT_POLICIES.LAST_N_PRO_RATA.winners(queue, 'd', 2)).toEqual([2, 5]);
+    expect(JACKPOT_POLICIES.LAST_N_PRO_RATA.winners(queue, 'd', 10)).toEqual([1, 2, 5]);
+  });
+
+  it('splits the prize by deposit', () => {
+    expect(splitJackpot([player('a', 100), player('b', 300)], 200)).toEqual([50, 150]);
+  });
+});
+
+describe('round-end settlement', () => {
+  it('shares the jackpot between the last N depositors and logs the winners', () => {
+    const cfg: SimulationConfig = { ...config, jackpotPolicy: 'LAST_N_PRO_RATA', jackpotWinnerCount: 2, jackpotPayoutShare: 0.8 };
+    const start = stateWith([player('a', 100), player('b', 100), player('c', 300)], { protocolBalance: 0, jackpotBalance: 100, lastDepositorId: 'c' });
+    const { state } = triggerRoundEnd(start, cfg, 'TIMER');
+
+    expect(state.queue.map(p => p.collected)).toEqual([0, 20, 60]);
+    expect(state.jackpotBalance).toBeCloseTo(20, 10);
+    expect(state.roundHistory[0].settlement).toMatchObject({ jackpotPolicy: 'LAST_N_PRO_RATA', jackpotWinners: ['b', 'c'], jackpotPaid: 80 });
+    expect(state.roundHistory[0].settlement!.jackpotCarriedOver).toBeCloseTo(20, 10);
+  });
+
+  it('holds the carry-over share of the reserve back from the refund', () => {
+    const cfg: SimulationConfig = { ...config, refundPolicy: 'SMALLEST_FIRST', reserveCarryOver: 0.25 };
+    const start = stateWith([player('big', 300), player('small', 100)], { protocolBalance: 200, jackpotBalance: 0, lastDepositorId: null });
+    const { state } = triggerRoundEnd(start, cfg, 'CAP_REACHED');
+
+    expect(state.queue.map(p => p.collected)).toEqual([50, 100]);
+    expect(state.queue[1]).toMatchObject({ exitReason: 'REFUND', target: 100 });
+    expect(state.protocolBalance).toBe(50);
+    expect(state.roundHistory[0].settlement).toEqual({
+      jackpotPolicy: 'LAST_DEPOSITOR',
+      refundPolicy: 'SMALLEST_FIRST',
+      jackpotPaid: 0,
+      jackpotWinners: [],
+      stuckUsers: 2,
+      stuckPrincipal: 400,
+      refundBudget: 150,
+      refunded: 150,
+      usersRefunded: 1,
+      leftBelowBreakEven: 1,
+      trappedPrincipal: 250,
+      carriedOver: 50,
+      jackpotCarriedOver: 0
+    });
+  });
+
+  it('takes exactly what the refunds credited out of the reserve', () => {
+    const cfg: SimulationConfig = { ...config, refundPolicy: 'PRO_RATA', reserveCarryOver: 0 };
+    const start = stateWith([player('a', 10), player('b', 20), player('c', 40)], { protocolBalance: 29, jackpotBalance: 0, lastDepositorId: null });
+    const { state } = triggerRoundEnd(start, cfg, 'TIMER');
+    const refunded = state.queue.reduce((acc, p) => acc + p.collected, 0);
+
+    // 29 / 70 of each shortfall sums to just over 29 in floating point
+    expect(refunded).toBeLessThanOrEqual(29);
+    expect(state.roundHistory[0].settlement!.refunded).toBe(refunded);
+    expect(state.protocolBalance).toBeCloseTo(29 - refunded, 12);
+    expect(state.protocolBalance).toBeGreaterThanOrEqual(0);
+  });
+
+  it('rejects unknown policies and out-of-range settings', () => {
+    expect(() => parseConfigOverrides({ trappedPolicy: 'FORGET' })).toThrow('config.trappedPolicy must be "CARRY_OVER" or "WRITE_OFF"');
+    expect(() => parseConfigOverrides({ refundPolicy: 'LIFO' })).toThrow('unknown refund policy "LIFO"');
+    expect(() => parseConfigOverrides({ jackpotPolicy: 'RAFFLE' })).toThrow('unknown jackpot policy "RAFFLE"');
+    expect(() => parseConfigOverrides({ reserveCarryOver: 1.5 })).toThrow('config.reserveCarryOver must be between 0 and 1');
+    expect(() => parseConfigOverrides({ jackpotWinnerCount: 0 })).toThrow('config.jackpotWinnerCount must be a whole number of at least 1');
+  });
+});
+
+describe('trapped positions between rounds', () => {
+  // a is refunded to break-even, b only partly; the jackpot bot and seed are the protocol's own
+  const closing = (trappedPolicy: SimulationConfig['trappedPolicy']) => {
+    const cfg: SimulationConfig = { ...config, trappedPolicy };
+    const start = stateWith(
+      [player('PROTOCOL_SEED', 1000, { target: 1100, collected: 1050 }), player('a', 100, { collected: 60 }), player('b', 300, { collected: 100 }), player('JACKPOT_BOT_3', 500)],
+      { protocolBalance: 90, jackpotBalance: 0, lastDepositorId: null, totalDeposited: 5000, roundOpening: { totalDeposited: 3000, protocolBalance: 50, jackpotBalance: 0, carriedIn: 0, carriedInLiability: 0 } }
+    );
+    const ended = triggerRoundEnd(start, cfg, 'TIMER');
+    return { cfg, ended, next: startNextRound(ended.state, cfg) };
+  };
+
+  it('writes off unpaid positions with a recorded loss when the next round opens', () => {
+    const { ended, next } = closing('WRITE_OFF');
+
+    expect(ended.state.roundHistory[0].accounting).toEqual({
+      trappedPolicy: 'WRITE_OFF',
+      deposited: 2000,
+      transactions: 0,
+      peakLiability: 1690,
+      reserveChange: -50,
+      jackpotChange: 0,
+      carriedIn: 0,
+      carriedInLiability: 0,
+      carriedOut: 0,
+      carriedOutLiability: 0,
+      writtenOff: 1,
+      writtenOffPrincipal: 150,
+      writtenOffLiability: 450
+    });
+    expect(next.state.queue.map(p => p.id)).toEqual(['PROTOCOL_SEED']);
+    expect(next.state).toMatchObject({ writtenOffUsers: 1, writtenOffPrincipal: 150 });
+    // Only the depositor left short is written off; the seed, the bot and refunded a leave as settled
+    expect(next.events.filter(e => e.type === 'WRITE_OFF')).toEqual([{ type: 'WRITE_OFF', playerId: 'b', collected: 150, unpaid: 450 }]);
+    expect(next.events).toContainEqual({ type: 'ROUND_START', roundNumber: 2, settledCollected: 1150 });
+  });
+
+  it('carries unpaid positions behind a fresh seed and opens the next round with them', () => {
+    const { cfg, ended, next } = closing('CARRY_OVER');
+
+    expect(ended.state.roundHistory[0].accounting).toMatchObject({ carriedOut: 2, carriedOutLiability: 1450, writtenOff: 0, writtenOffPrincipal: 0 });
+    expect(next.state.queue.map(p => p.id)).toEqual(['PROTOCOL_SEED', 'b', 'JACKPOT_BOT_3']);
+    expect(next.state.queue[1]).toMatchObject({ collected: 150, carriedOver: false });
+    expect(next.state.writtenOffUsers).toBe(0);
+    expect(next.state.roundOpening).toMatchObject({ totalDeposited: 5000, protocolBalance: 0, carriedIn: 2, carriedInLiability: 1450 });
+
+    const later = triggerRoundEnd(next.state, cfg, 'TIMER').state;
+    expect(later.roundHistory[1].accounting).toMatchObject({ carriedIn: 2, carriedInLiability: 1450, deposited: 0 });
+  });
+
+  it('keeps carried positions open in the outcome report', () => {
+    const { ended } = closing('CARRY_OVER');
+    const tracker = createOutcomeTracker(ended.state);
+    tracker.observe(ended.events, ended.state);
+
+    const outcomes = tracker.finalize(ended.state);
+    expect(outcomes.find(o => o.playerId === 'a')!.outcome).toBe('REFUND');
+    expect(outcomes.find(o => o.playerId === 'b')!.outcome).toBe('OPEN');
+  });
+});
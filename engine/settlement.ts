@@ -0,0 +1,77 @@
+import { JackpotPolicyId, Player, RefundPolicyId } from '../types';
+import { fillInOrder, shareByWeight } from './distribution';
+
+export interface JackpotPolicy {
+  id: JackpotPolicyId;
+  label: string;
+  description: string;
+  // Queue indexes of the winners; the prize is split between them by deposit (see splitJackpot)
+  winners: (queue: Player[], lastDepositorId: string | null, count: number) => number[];
+}
+
+export interface RefundPolicy {
+  id: RefundPolicyId;
+  label: string;
+  description: string;
+  // Splits the refund budget across the queue: one amount per position, never past break-even
+  allocate: (queue: Player[], budget: number) => number[];
+}
+
+// Jackpot bots, reinvests and the seed never count as depositors
+const isOrganic = (p: Player) => !p.id.startsWith('PROTOCOL') && !p.id.startsWith('JACKPOT') && !p.isReinvest;
+
+const shortfall = (queue: Player[]) => queue.map(p => Math.max(0, p.deposit - p.collected));
+
+const refundInOrder = (order: (queue: Player[]) => number[]) => (queue: Player[], budget: number): number[] => {
+  const needs = shortfall(queue);
+  const amounts = needs.map(() => 0);
+  fillInOrder(order(queue), needs, amounts, budget);
+  return amounts;
+};
+
+export const JACKPOT_POLICIES: Record<JackpotPolicyId, JackpotPolicy> = {
+  LAST_DEPOSITOR: {
+    id: 'LAST_DEPOSITOR',
+    label: 'Last Depositor',
+    description: 'The last depositor of the round takes the whole prize.',
+    winners: (queue, lastDepositorId) => {
+      const index = queue.findIndex(p => p.id === lastDepositorId);
+      return index === -1 ? [] : [index];
+    }
+  },
+  LAST_N_PRO_RATA: {
+    id: 'LAST_N_PRO_RATA',
+    label: 'Last N Pro-rata',
+    description: 'The last N depositors still in the queue share the prize by deposit size.',
+    winners: (queue, _, count) => queue.map((_, i) => i).filter(i => isOrganic(queue[i])).slice(-Math.max(1, count))
+  }
+};
+
+export const REFUND_POLICIES: Record<RefundPolicyId, RefundPolicy> = {
+  FIFO: {
+    id: 'FIFO',
+    label: 'FIFO',
+    description: 'The oldest stuck position is brought back to break-even before the next one gets anything.',
+    allocate: refundInOrder(queue => queue.map((_, i) => i))
+  },
+  PRO_RATA: {
+    id: 'PRO_RATA',
+    label: 'Pro-rata Principal',
+    description: 'Every stuck position gets back the same fraction of the principal it is missing.',
+    allocate: (queue, budget) => {
+      const needs = shortfall(queue);
+      return shareByWeight(needs, needs, budget);
+    }
+  },
+  SMALLEST_FIRST: {
+    id: 'SMALLEST_FIRST',
+    label: 'Smallest First',
+    description: 'The smallest deposits are made whole first, so the budget rescues as many users as it can.',
+    allocate: refundInOrder(queue => queue.map((_, i) => i).sort((a, b) => queue[a].deposit - queue[b].deposit))
+  }
+};
+
+export const splitJackpot = (winners: Player[], prize: number): number[] => {
+  const total = winners.reduce((acc, p) => acc + p.deposit, 0);
+  return winners.map(p => total > 0 ? prize * p.deposit / total : prize / winners.length);
+};
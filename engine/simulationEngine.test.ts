@@ -0,0 +1,377 @@
+import { describe, expect, it } from 'vitest';
+import { DistributionStrategy, EngineState, SimulationConfig } from '../types';
+import { defaultBehaviorParams } from './behaviors';
+import {
+  computeHealthMetrics,
+  createEngineState,
+  handleEmergencyWithdraw,
+  INITIAL_SEED_AMOUNT,
+  processDeposit,
+  runTick,
+  splitFee,
+  startNextRound,
+  triggerDailyDrip,
+  triggerRoundEnd
+} from './simulationEngine';
+import { config, player, stateWith } from './testHelpers';
+
+const find = (state: EngineState, id: string) => state.queue.find(p => p.id === id) ?? state.exits.find(p => p.id === id);
+
+describe('processDeposit', () => {
+  it('splits the fee between reserve and jackpot and pays the rest to the head', () => {
+    const start = createEngineState(config, { seed: 1, multiplier: 2 });
+    const { state, events } = processDeposit(start, config, { amount: 100 });
+
+    expect(state.protocolBalance).toBeCloseTo(config.initialReserve + 2.5);
+    expect(state.jackpotBalance).toBeCloseTo(2.5);
+    expect(state.queue[0].id).toBe('PROTOCOL_SEED');
+    expect(state.queue[0].collected).toBeCloseTo(95);
+    expect(state.queue[1]).toMatchObject({ deposit: 100, target: 200, collected: 0 });
+    expect(state.totalDeposited).toBe(INITIAL_SEED_AMOUNT + 100);
+    expect(events.map(e => e.type)).toEqual(['DEPOSIT', 'FEE_SPLIT', 'PAYOUT']);
+  });
+
+  it('never touches the state it was given', () => {
+    const start = createEngineState(config, { seed: 1 });
+    const before = JSON.stringify(start);
+    processDeposit(start, config, { amount: 100 });
+    expect(JSON.stringify(start)).toBe(before);
+  });
+
+  it('fills the queue head-first and exits everyone who reaches target', () => {
+    const start = stateWith([player('a', 100, { collected: 150 }), player('b', 100, { collected: 100 }), player('c', 100)]);
+    const { state, events } = processDeposit(start, config, { amount: 200 }); // 190 net
+
+    expect(find(state, 'a')).toMatchObject({ collected: 200, exitReason: 'PAID', netProfit: 100 });
+    expect(find(state, 'b')).toMatchObject({ collected: 200, exitReason: 'PAID' });
+    expect(find(state, 'c')!.collected).toBeCloseTo(40);
+    expect(state.queue.map(p => p.id)).toEqual(['c', expect.any(String)]);
+    expect(state.historyCount).toBe(2);
+    expect(events.filter(e => e.type === 'EXIT').map(e => e.playerId)).toEqual(['a', 'b']);
+  });
+
+  it('shares the yield pool equally across the queue before paying the head', () => {
+    const cfg = { ...config, yieldSplit: 0.5 };
+    const start = stateWith([player('a', 100), player('b', 100)], {}, cfg);
+    const { state } = processDeposit(start, cfg, { amount: 100 }); // 95 net: 47.5 yield, 47.5 head
+
+    expect(find(state, 'a')!.collected).toBeCloseTo(23.75 + 47.5);
+    expect(find(state, 'b')!.collected).toBeCloseTo(23.75);
+  });
+
+  it('charges at least $1 and adds the whale penalty above the threshold', () => {
+    const small = processDeposit(stateWith([player('a', 100)]), config, { amount: 10 });
+    expect(small.events[0]).toMatchObject({ type: 'DEPOSIT', fee: 1 });
+
+    const cfg = { ...config, penaltyEnabled: true, penaltyThreshold: 500, penaltyRate: 0.1 };
+    const whale = processDeposit(stateWith([player('a', 100)], {}, cfg), cfg, { amount: 800 });
+    expect(whale.events[0]).toMatchObject({ type: 'DEPOSIT', fee: 800 * 0.15 });
+  });
+
+  it('caps organic deposits at the deposit limit but not system ones', () => {
+    const capped = processDeposit(stateWith([]), config, { amount: 5000 });
+    expect(capped.state.queue[0].deposit).toBe(config.maxDepositLimit);
+
+    const system = processDeposit(stateWith([]), config, { amount: 5000, isSystem: true });
+    expect(system.state.queue[0]).toMatchObject({ id: 'PROTOCOL_SEED', deposit: 5000 });
+  });
+});
+
+describe('sustainability tax', () => {
+  const taxed = (penaltyType: 'ENTRY' | 'EXIT'): SimulationConfig => ({ ...config, penaltyEnabled: true, penaltyType, penaltyRate: 0.1, penaltyThreshold: 500 });
+
+  it('takes the tax from deposits over the threshold in ENTRY mode', () => {
+    const cfg = taxed('ENTRY');
+    const { state } = processDeposit(stateWith([]), cfg, { amount: 1000 }); // 50 fee + 100 tax
+
+    expect(state.protocolBalance).toBeCloseTo(config.initialReserve + 75);
+    expect(state.queue[0]).toMatchObject({ deposit: 1000, isTaxTarget: true, slashed: false });
+    expect(processDeposit(stateWith([]), cfg, { amount: 400 }).state.queue[0].isTaxTarget).toBe(false);
+  });
+
+  it('only flags the position on entry in EXIT mode', () => {
+    const { state } = processDeposit(stateWith([]), taxed('EXIT'), { amount: 1000 });
+    expect(state.protocolBalance).toBeCloseTo(config.initialReserve + 25);
+    expect(state.queue[0]).toMatchObject({ isTaxTarget: true, slashed: false });
+  });
+
+  it('slashes the payout of a flagged position when it reaches target in EXIT mode', () => {
+    const start = stateWith([player('a', 100, { collected: 150, isTaxTarget: true })]);
+    const { state, events } = processDeposit(start, taxed('EXIT'), { amount: 100 }); // 95 net, 50 needed
+
+    expect(state.exits[0]).toMatchObject({ id: 'a', collected: 180, slashed: true, exitReason: 'SLASHED', netProfit: 80 });
+    expect(state.protocolBalance).toBeCloseTo(config.initialReserve + 2.5 + 10);
+    expect(state.jackpotBalance).toBeCloseTo(2.5 + 10);
+    expect(state.payouts.byReason.SLASHED).toBeCloseTo(180);
+    expect(events.filter(e => e.type === 'EXIT_TAX' || e.type === 'EXIT').map(e => e.type)).toEqual(['EXIT', 'EXIT_TAX']);
+  });
+
+  it('leaves flagged positions alone in ENTRY mode', () => {
+    const start = stateWith([player('a', 100, { collected: 150, isTaxTarget: true })]);
+    const { state } = processDeposit(start, taxed('ENTRY'), { amount: 100 });
+    expect(state.exits[0]).toMatchObject({ id: 'a', collected: 200, exitReason: 'PAID' });
+  });
+});
+
+describe('fee routing', () => {
+  it('splits fees by weight, with the operator share leaving the pools', () => {
+    const cfg: SimulationConfig = { ...config, feeToReserve: 1, feeToJackpot: 1, feeToOperator: 2, feeToQueue: 0 };
+    const { state, events } = processDeposit(stateWith([]), cfg, { amount: 100 }); // 5 fee
+
+    expect(state.protocolBalance).toBeCloseTo(config.initialReserve + 1.25);
+    expect(state.jackpotBalance).toBeCloseTo(1.25);
+    expect(state.operatorBalance).toBeCloseTo(2.5);
+    expect(events.find(e => e.type === 'FEE_SPLIT')).toMatchObject({ toReserve: 1.25, toJackpot: 1.25, toOperator: 2.5, toQueue: 0 });
+  });
+
+  it('pays the queue share out straight away', () => {
+    const cfg: SimulationConfig = { ...config, feeToReserve: 0, feeToJackpot: 0, feeToQueue: 1 };
+    const { state, events } = processDeposit(stateWith([player('a', 100)]), cfg, { amount: 100 });
+
+    expect(find(state, 'a')!.collected).toBeCloseTo(100);
+    expect(events.filter(e => e.type === 'PAYOUT').map(e => e.type === 'PAYOUT' && e.source)).toEqual(['FEE', 'HEAD']);
+    expect(state.protocolBalance).toBe(config.initialReserve);
+  });
+
+  it('keeps a queue share nobody is owed in the reserve', () => {
+    const cfg: SimulationConfig = { ...config, feeToReserve: 0, feeToJackpot: 0, feeToQueue: 1 };
+    const { state } = processDeposit(stateWith([]), cfg, { amount: 100 });
+    expect(state.protocolBalance).toBeCloseTo(config.initialReserve + 5);
+  });
+
+  it('charges at least the minimum fee', () => {
+    const { events } = processDeposit(stateWith([]), { ...config, minimumFee: 3 }, { amount: 10 });
+    expect(events.find(e => e.type === 'DEPOSIT')).toMatchObject({ fee: 3 });
+  });
+
+  it('keeps everything in the reserve when every weight is zero', () => {
+    const none = { ...config, feeToReserve: 0, feeToJackpot: 0, feeToOperator: 0, feeToQueue: 0 };
+    expect(splitFee(none, 10)).toEqual({ toReserve: 10, toJackpot: 0, toOperator: 0, toQueue: 0 });
+  });
+});
+
+describe('decay multiplier', () => {
+  const cfg: SimulationConfig = { ...config, multiplierPolicy: { policy: 'LOGISTIC_DECAY', params: { decayRate: 0.005 } } };
+  const queueOf = (length: number) => Array.from({ length }, (_, i) => player(`p${i}`, 100));
+
+  it('follows 1.1 + 0.9 / (1 + queueLength * 0.005) with the default floor and ceiling', () => {
+    for (const length of [0, 1, 20, 100, 400]) {
+      const start = stateWith(queueOf(length), { protocolBalance: 1e9 }, cfg);
+      const { state } = processDeposit(start, cfg, { amount: 10 });
+      expect(state.currentAdaptiveMultiplier).toBeCloseTo(1.1 + 0.9 / (1 + length * 0.005), 10);
+    }
+  });
+
+  it('clamps to 1.25 when health is critical', () => {
+    const start = stateWith(queueOf(20), { protocolBalance: 0 }, cfg);
+    const { state } = processDeposit(start, cfg, { amount: 10 });
+    expect(state.currentAdaptiveMultiplier).toBe(1.25);
+  });
+
+  it('never drops below 1.1', () => {
+    const start = stateWith(queueOf(5000), { protocolBalance: 1e9 }, cfg);
+    const { state } = processDeposit(start, cfg, { amount: 10 });
+    expect(state.currentAdaptiveMultiplier).toBeGreaterThanOrEqual(1.1);
+  });
+
+  it('is overridden by break-even risk', () => {
+    const risky = { ...cfg, breakEvenChance: 1 };
+    const { state } = processDeposit(stateWith([], {}, risky), risky, { amount: 100 });
+    expect(state.queue[0]).toMatchObject({ multiplier: 1, target: 100, isUnlucky: true });
+  });
+});
+
+describe('target 100 multiplier', () => {
+  const queueOf = (length: number) => Array.from({ length }, (_, i) => player(`p${i}`, 100));
+  const next = (length: number, current: number, params: Record<string, number> = {}) => {
+    const c: SimulationConfig = { ...config, multiplierPolicy: { policy: 'TARGET_100', params: { queueTarget: 100, step: 0.02, ...params } } };
+    return processDeposit(stateWith(queueOf(length), { protocolBalance: 1e9, currentAdaptiveMultiplier: current }, c), c, { amount: 10 }).state;
+  };
+
+  it('steps down while the queue is over target and up while under, in proportion to the gap', () => {
+    expect(next(150, 1.5).currentAdaptiveMultiplier).toBeCloseTo(1.49, 10);
+    expect(next(50, 1.5).currentAdaptiveMultiplier).toBeCloseTo(1.51, 10);
+    expect(next(100, 1.5).currentAdaptiveMultiplier).toBeCloseTo(1.5, 10);
+  });
+
+  it('moves at most one step per deposit', () => {
+    expect(next(1000, 1.5).currentAdaptiveMultiplier).toBeCloseTo(1.48, 10);
+    expect(next(0, 1.5).currentAdaptiveMultiplier).toBeCloseTo(1.52, 10);
+  });
+
+  it('stays between the floor and the ceiling', () => {
+    expect(next(1000, 1.1, { floor: 1.1 }).currentAdaptiveMultiplier).toBe(1.1);
+    expect(next(0, 2.0, { ceiling: 2.0 }).currentAdaptiveMultiplier).toBe(2.0);
+  });
+
+  it('is written into the new position', () => {
+    const state = next(150, 1.5);
+    expect(state.queue[state.queue.length - 1]).toMatchObject({ multiplier: state.currentAdaptiveMultiplier, target: 10 * state.currentAdaptiveMultiplier });
+  });
+});
+
+describe('health metrics', () => {
+  const queue = [player('a', 100), player('b', 100, { collected: 100 })]; // Liability 300
+
+  it('measures reserve against what the queue is still owed', () => {
+    expect(computeHealthMetrics(queue, 150, config)).toEqual({ liability: 300, healthFactor: 0.5, dynamicFee: config.feePercent });
+    expect(computeHealthMetrics([], 150, config).healthFactor).toBe(10);
+  });
+
+  it('raises the fee linearly below 20% health, up to 15%', () => {
+    expect(computeHealthMetrics(queue, 60, config).dynamicFee).toBe(config.feePercent);
+    expect(computeHealthMetrics(queue, 30, config).dynamicFee).toBeCloseTo(config.feePercent + 0.1 * 0.5);
+    expect(computeHealthMetrics(queue, 0, config).dynamicFee).toBeCloseTo(0.15);
+    expect(computeHealthMetrics(queue, 0, { ...config, feePercent: 0.12 }).dynamicFee).toBe(0.15);
+  });
+
+  it('charges deposits the dynamic fee', () => {
+    const start = stateWith([player('a', 1000)], { protocolBalance: 0 });
+    const { events } = processDeposit(start, config, { amount: 100 });
+    expect(events[0]).toMatchObject({ type: 'DEPOSIT' });
+    expect(events[0].type === 'DEPOSIT' && events[0].fee).toBeCloseTo(15);
+  });
+});
+
+describe('triggerDailyDrip', () => {
+  const queueOf = (length: number) => Array.from({ length }, (_, i) => player(`p${i}`, 1000));
+
+  it('STANDARD drips the daily rate to the head of the queue', () => {
+    const start = stateWith(queueOf(3), { protocolBalance: 10000 });
+    const { state, events } = triggerDailyDrip(start, config);
+
+    expect(state.protocolBalance).toBeCloseTo(9000);
+    expect(find(state, 'p0')!.collected).toBeCloseTo(1000);
+    expect(find(state, 'p1')!.collected).toBe(0);
+    expect(events[0]).toEqual({ type: 'DRIP', amount: 1000 });
+  });
+
+  it('STANDARD holds the drip when health is critical', () => {
+    const start = stateWith(queueOf(3), { protocolBalance: 10000, healthFactor: 0.04 });
+    const { state, events } = triggerDailyDrip(start, config);
+    expect(state.protocolBalance).toBe(10000);
+    expect(events).toEqual([]);
+  });
+
+  it('INFINITY_LOOP flushes the whole reserve and sends reverse yield to the last ten', () => {
+    const start = stateWith(queueOf(12), { protocolBalance: 1000, healthFactor: 0.04, strategy: DistributionStrategy.INFINITY_LOOP });
+    const { state } = triggerDailyDrip(start, config);
+    const share = (1000 * config.reverseYieldRate) / 10;
+
+    expect(state.protocolBalance).toBe(0);
+    expect(find(state, 'p0')!.collected).toBeCloseTo(800);
+    expect(find(state, 'p1')!.collected).toBe(0);
+    expect(find(state, 'p2')!.collected).toBeCloseTo(share);
+    expect(find(state, 'p11')!.collected).toBeCloseTo(share);
+  });
+
+  it('INFINITY_LOOP skips reverse yield for short queues', () => {
+    const start = stateWith(queueOf(5), { protocolBalance: 1000, strategy: DistributionStrategy.INFINITY_LOOP });
+    const { state } = triggerDailyDrip(start, config);
+    expect(find(state, 'p0')!.collected).toBeCloseTo(1000);
+    expect(find(state, 'p4')!.collected).toBe(0);
+  });
+
+  it('does nothing with an empty queue or a dry reserve', () => {
+    expect(triggerDailyDrip(stateWith([], { protocolBalance: 10000 }), config).events).toEqual([]);
+    expect(triggerDailyDrip(stateWith(queueOf(3), { protocolBalance: 1 }), config).events).toEqual([]);
+  });
+});
+
+describe('handleEmergencyWithdraw', () => {
+  it('refunds the deposit minus 20% and sends the penalty to the reserve', () => {
+    const start = stateWith([player('a', 100, { collected: 30 }), player('b', 100)], { protocolBalance: 1000, healthFactor: 1 });
+    const { state, events } = handleEmergencyWithdraw(start, config, 'a');
+
+    expect(state.queue.map(p => p.id)).toEqual(['b']);
+    expect(state.exits[0]).toMatchObject({ id: 'a', collected: 80, exitReason: 'EARLY_EXIT', netProfit: -20 });
+    expect(state.protocolBalance).toBe(1020);
+    expect(state.exitMomentum).toBe(1);
+    expect(events).toEqual([{ type: 'EMERGENCY_EXIT', playerId: 'a', refund: 80, penalty: 20 }]);
+  });
+
+  it('charges 35% when health is below 0.1', () => {
+    const start = stateWith([player('a', 100)], { protocolBalance: 0, healthFactor: 0.05 });
+    const { events } = handleEmergencyWithdraw(start, config, 'a');
+    expect(events[0]).toMatchObject({ refund: 65, penalty: 35 });
+  });
+
+  it('ignores unknown players', () => {
+    const start = stateWith([player('a', 100)]);
+    const { state, events } = handleEmergencyWithdraw(start, config, 'nobody');
+    expect(events).toEqual([]);
+    expect(state.queue).toEqual(start.queue);
+  });
+});
+
+describe('round timer', () => {
+  const short: SimulationConfig = { ...config, roundDurationSeconds: 3600 };
+
+  it('opens every round with the configured duration', () => {
+    expect(createEngineState(short, { seed: 1 }).roundExpiry).toBe(3600 * 1000);
+
+    const ended = triggerRoundEnd(stateWith([player('a', 100)], { clock: 5000 }, short), short, 'CAP_REACHED').state;
+    expect(startNextRound(ended, short).state.roundExpiry).toBe(5000 + 3600 * 1000);
+  });
+
+  it('ends the round on the timer once the clock passes expiry', () => {
+    const start = createEngineState(short, { seed: 1 });
+    const { state, events } = runTick({ ...start, clock: start.roundExpiry }, short);
+
+    expect(state.roundActive).toBe(false);
+    expect(events).toContainEqual({ type: 'ROUND_END', roundNumber: 1, reason: 'TIMER' });
+  });
+});
+
+describe('round end', () => {
+  it('pays half the jackpot to the last depositor, then refunds the queue in entry order', () => {
+    const start = stateWith(
+      [player('first', 100, { collected: 40 }), player('second', 100), player('third', 100), player('last', 100)],
+      { protocolBalance: 100, jackpotBalance: 200, lastDepositorId: 'last' }
+    );
+    const { state, events } = triggerRoundEnd(start, config, 'TIMER');
+
+    expect(find(state, 'last')).toMatchObject({ collected: 100, exitReason: 'JACKPOT_WIN' }); // Already broke even, so no refund
+    expect(state.jackpotBalance).toBe(100);
+    expect(find(state, 'first')).toMatchObject({ collected: 100, exitReason: 'REFUND', target: 100 });
+    expect(find(state, 'second')!.collected).toBe(40);
+    expect(find(state, 'third')!.collected).toBe(0);
+    expect(state.protocolBalance).toBe(0);
+
+    const payouts = events.filter(e => e.type === 'PAYOUT').map(e => e.type === 'PAYOUT' && [e.source, e.playerId, e.amount]);
+    expect(payouts).toEqual([['JACKPOT', 'last', 100], ['MIDNIGHT_REFUND', 'first', 60], ['MIDNIGHT_REFUND', 'second', 40]]);
+  });
+
+  it('closes the round once and logs it', () => {
+    const first = triggerRoundEnd(stateWith([player('a', 100)]), config, 'CAP_REACHED');
+    expect(first.state.roundActive).toBe(false);
+    expect(first.state.roundHistory).toHaveLength(1);
+    expect(first.state.roundHistory[0]).toMatchObject({ roundNumber: 1, reason: 'CAP_REACHED' });
+
+    const second = triggerRoundEnd(first.state, config, 'TIMER');
+    expect(second.events).toEqual([]);
+    expect(second.state.roundHistory).toHaveLength(1);
+  });
+});
+
+describe('runTick', () => {
+  it('stops panic exits once a deposit closes the round on the transaction cap', () => {
+    const cfg: SimulationConfig = { ...config, maxTransactions: 50 };
+    const behavior = { model: 'HERD_PANIC' as const, params: defaultBehaviorParams('HERD_PANIC') };
+    let capped = 0;
+
+    [1, 2, 3, 4, 5].forEach(seed => {
+      let state = createEngineState(cfg, { seed });
+      for (let tick = 0; tick < 3000; tick++) {
+        const { state: next, events } = state.roundActive ? runTick(state, cfg, behavior) : startNextRound(state, cfg);
+        const end = events.findIndex(e => e.type === 'ROUND_END');
+        if (end !== -1) {
+          capped += next.roundHistory[next.roundHistory.length - 1].reason === 'CAP_REACHED' ? 1 : 0;
+          expect(events.slice(end).filter(e => e.type === 'EMERGENCY_EXIT')).toEqual([]);
+        }
+        state = next;
+      }
+    });
+    expect(capped).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,636 @@
+import { Player, EngineState, EngineEvent, EngineStep, SimulationConfig, DistributionStrategy, RoundEndReason, BehaviorSettings, PayoutSource, FeeSplit, RoundOpening } from '../types';
+import { BEHAVIOR_MODELS, DEFAULT_BEHAVIOR, resolveBehaviorParams } from './behaviors';
+import { advanceClock } from './clock';
+import { nextRandom, nextId, pickRandom, randomSeed, normalizeSeed } from './random';
+import { clonePayouts, emptyPayouts, recordPayout } from './payouts';
+import { multiplierFor } from './multiplierPolicies';
+import { DISTRIBUTION_STRATEGIES } from './distribution';
+import { trappedPrincipal } from './series';
+import { JACKPOT_POLICIES, REFUND_POLICIES, splitJackpot } from './settlement';
+
+export const INITIAL_SEED_AMOUNT = 1000;
+export const INITIAL_SEED_MULTIPLIER = 1.1;
+export const DAILY_DRIP_INTERVAL = 240;
+export const ROUND_EXTENSION_SECONDS = 600;
+export const MAX_ROUND_DURATION_SECONDS = 86400;
+export const EXIT_MOMENTUM_DECAY = 0.9; // Per tick
+export const EXIT_BUFFER_SIZE = 50;
+
+export interface DepositRequest {
+  amount: number;
+  isSystem?: boolean;
+  isClient?: boolean;
+  isReinvest?: boolean;
+  advanceTime?: boolean; // Reinvests ride on the deposit that triggered them
+}
+
+export interface EngineOptions {
+  multiplier?: number;
+  strategy?: DistributionStrategy;
+  seed?: number; // Omit for a fresh random seed
+}
+
+export interface HealthMetrics {
+  liability: number;
+  healthFactor: number;
+  dynamicFee: number;
+}
+
+const createSeedPlayer = (entryRound: number, timestamp: number): Player => ({
+  id: 'PROTOCOL_SEED',
+  deposit: INITIAL_SEED_AMOUNT,
+  target: INITIAL_SEED_AMOUNT * INITIAL_SEED_MULTIPLIER,
+  collected: 0,
+  entryRound,
+  timestamp,
+  slashed: false,
+  multiplier: INITIAL_SEED_MULTIPLIER,
+  isTaxTarget: false,
+  fastFilled: false,
+  isClientDeposit: false,
+  isReinvest: false,
+  isUnlucky: false
+});
+
+// Depositor positions only: the seed and jackpot bots are the protocol's own
+export const isParticipant = (p: Player) => !p.id.startsWith('PROTOCOL') && !p.id.startsWith('JACKPOT');
+
+const unpaid = (players: Player[]) => players.reduce((acc, p) => acc + Math.max(0, p.target - p.collected), 0);
+
+export const openRound = (state: EngineState, carried: Player[]): RoundOpening => ({
+  totalDeposited: state.totalDeposited,
+  protocolBalance: state.protocolBalance,
+  jackpotBalance: state.jackpotBalance,
+  carriedIn: carried.length,
+  carriedInLiability: unpaid(carried)
+});
+
+export const createEngineState = (config: SimulationConfig, options: EngineOptions = {}): EngineState => {
+  const seed = normalizeSeed(options.seed ?? randomSeed());
+  return {
+    queue: [createSeedPlayer(1, 0)],
+    exits: [],
+    historyCount: 0,
+    payouts: emptyPayouts(),
+    totalDeposited: INITIAL_SEED_AMOUNT,
+    protocolBalance: config.initialReserve,
+    jackpotBalance: 0,
+    operatorBalance: 0,
+    writtenOffUsers: 0,
+    writtenOffPrincipal: 0,
+    currentRound: 1,
+    gameRound: 1,
+    tickCount: 0,
+    multiplier: options.multiplier ?? 2.0,
+    strategy: options.strategy ?? DistributionStrategy.STANDARD,
+    seed,
+    rngState: seed,
+    clock: 0,
+    elapsedTicks: 0,
+    exitMomentum: 0,
+    currentAdaptiveMultiplier: options.multiplier ?? 2.0,
+    pendingTransactions: [],
+    roundStartTime: 0,
+    roundOpening: { totalDeposited: INITIAL_SEED_AMOUNT, protocolBalance: config.initialReserve, jackpotBalance: 0, carriedIn: 0, carriedInLiability: 0 },
+    roundPeakLiability: 0,
+    roundExpiry: config.roundDurationSeconds * 1000,
+    lastDepositorId: 'PROTOCOL_SEED',
+    roundHistory: [],
+    roundActive: true,
+    transactionsInCurrentRound: 0,
+    currentLiability: 0,
+    healthFactor: 10,
+    dynamicFee: config.feePercent,
+    exitPenaltyRate: 0.20
+  };
+};
+
+// Steps never touch the caller's state: everything mutable is copied up front
+const cloneState = (state: EngineState): EngineState => ({
+  ...state,
+  queue: state.queue.map(p => ({ ...p })),
+  exits: [...state.exits],
+  payouts: clonePayouts(state.payouts),
+  pendingTransactions: [...state.pendingTransactions],
+  roundHistory: [...state.roundHistory]
+});
+
+const step = (state: EngineState, apply: (next: EngineState, events: EngineEvent[]) => void): EngineStep => {
+  const next = cloneState(state);
+  const events: EngineEvent[] = [];
+  apply(next, events);
+  return { state: next, events };
+};
+
+// --- MATHEMATICAL HELPERS ---
+export const computeHealthMetrics = (queue: Player[], protocolBalance: number, config: SimulationConfig): HealthMetrics => {
+  // Liability = Sum of (Target - Collected) for everyone in queue
+  const liability = queue.reduce((acc, p) => acc + (p.target - p.collected), 0);
+
+  // Health Factor = Reserves / Liability
+  // If Liability is 0, Health is Infinite (cap at 10 for logic)
+  const healthFactor = liability > 0 ? protocolBalance / liability : 10;
+
+  // Dynamic Fee Adjustment based on Health
+  // If Health < 0.2 (20% backed), increase entry fees linearly up to 15%
+  const dynamicFee = healthFactor < 0.2
+    ? Math.min(0.15, config.feePercent + (0.2 - healthFactor) * 0.5)
+    : config.feePercent;
+
+  return { liability, healthFactor, dynamicFee };
+};
+
+const updateHealthMetrics = (state: EngineState, config: SimulationConfig) => {
+  const metrics = computeHealthMetrics(state.queue, state.protocolBalance, config);
+  state.currentLiability = metrics.liability;
+  state.roundPeakLiability = Math.max(state.roundPeakLiability, metrics.liability);
+  state.healthFactor = metrics.healthFactor;
+  state.dynamicFee = metrics.dynamicFee;
+};
+
+const credit = (events: EngineEvent[], source: PayoutSource, p: Player, amount: number) => {
+  p.collected += amount;
+  events.push({ type: 'PAYOUT', source, playerId: p.id, amount });
+};
+
+// Splits the pool across the queue the way the run's distribution strategy says
+const distribute = (state: EngineState, pool: number, events: EngineEvent[], source: PayoutSource) => {
+  if (pool <= 0) return;
+  const amounts = DISTRIBUTION_STRATEGIES[state.strategy].allocate(state.queue, pool);
+  state.queue.forEach((p, i) => {
+    if (amounts[i] > 0) credit(events, source, p, amounts[i]);
+  });
+};
+
+// --- LOGIC: EMERGENCY WITHDRAW (Dynamic Penalty) ---
+const applyEmergencyWithdraw = (state: EngineState, config: SimulationConfig, events: EngineEvent[], playerId: string) => {
+  const index = state.queue.findIndex(p => p.id === playerId);
+  if (index === -1) return;
+
+  const player = state.queue[index];
+
+  // Panic Multiplier: If Health is low, Exit Penalty increases to discourage runs
+  let penaltyRate = state.exitPenaltyRate;
+  if (state.healthFactor < 0.1) penaltyRate = 0.35; // 35% penalty if system is stressed
+
+  const penaltyAmount = player.deposit * penaltyRate;
+  const refundAmount = player.deposit - penaltyAmount;
+
+  // Penalty goes to Protocol Reserve to sustain the system (The "Tax")
+  state.protocolBalance += penaltyAmount;
+
+  player.collected = refundAmount;
+  player.exitReason = 'EARLY_EXIT';
+  player.netProfit = -penaltyAmount;
+
+  // Remove from Queue and Add to Exits
+  state.queue.splice(index, 1);
+  state.exits = [player, ...state.exits].slice(0, EXIT_BUFFER_SIZE);
+  state.historyCount++;
+  state.exitMomentum++;
+  recordPayout(state.payouts, player, 'EARLY_EXIT', refundAmount);
+  events.push({ type: 'EMERGENCY_EXIT', playerId, refund: refundAmount, penalty: penaltyAmount });
+
+  // Recalculate Health immediately after exit (Liability drops, Reserve grows -> Health goes UP)
+  updateHealthMetrics(state, config);
+};
+
+const applyDailyDrip = (state: EngineState, config: SimulationConfig, events: EngineEvent[]) => {
+  if (state.protocolBalance <= 1 || state.queue.length === 0) return;
+
+  const isLoop = DISTRIBUTION_STRATEGIES[state.strategy].flushDrip;
+  // Adaptive Drip: Don't drip if Health Factor is critical (< 0.05)
+  if (state.healthFactor < 0.05 && !isLoop) return;
+
+  const dripAmount = isLoop ? state.protocolBalance : state.protocolBalance * config.dailyDripRate;
+  state.protocolBalance -= dripAmount;
+  events.push({ type: 'DRIP', amount: dripAmount });
+
+  let headPool = dripAmount;
+  let reversePool = 0;
+  if (isLoop && state.queue.length > 5) {
+     reversePool = dripAmount * config.reverseYieldRate;
+     headPool = dripAmount - reversePool;
+  }
+  if (reversePool > 0) {
+     const tailSlice = state.queue.slice(-10);
+     if (tailSlice.length > 0) {
+        const share = reversePool / tailSlice.length;
+        tailSlice.forEach(p => credit(events, 'REVERSE_YIELD', p, share));
+     }
+  }
+  distribute(state, headPool, events, 'DRIP');
+};
+
+// config.feeTo* are relative weights; with all of them at zero everything stays in the reserve
+export const splitFee = (config: SimulationConfig, amount: number): FeeSplit => {
+  const total = config.feeToReserve + config.feeToJackpot + config.feeToOperator + config.feeToQueue;
+  if (total <= 0) return { toReserve: amount, toJackpot: 0, toOperator: 0, toQueue: 0 };
+  return {
+    toReserve: amount * config.feeToReserve / total,
+    toJackpot: amount * config.feeToJackpot / total,
+    toOperator: amount * config.feeToOperator / total,
+    toQueue: amount * config.feeToQueue / total
+  };
+};
+
+// Books the reserve, jackpot and operator shares; the caller distributes the queue share right away
+const routeFee = (state: EngineState, config: SimulationConfig, amount: number): FeeSplit => {
+  const split = splitFee(config, amount);
+  if (split.toQueue > 0) {
+    // Whatever the queue is not owed stays in the reserve
+    const owed = state.queue.reduce((acc, p) => acc + Math.max(0, p.target - p.collected), 0);
+    const excess = Math.max(0, split.toQueue - owed);
+    split.toQueue -= excess;
+    split.toReserve += excess;
+  }
+  state.protocolBalance += split.toReserve;
+  state.jackpotBalance += split.toJackpot;
+  state.operatorBalance += split.toOperator;
+  return split;
+};
+
+// EXIT-mode Sustainability Tax: a cut of the finished payout, routed like entry fees once the position has left
+const slash = (config: SimulationConfig, p: Player): number => {
+  const tax = p.collected * config.penaltyRate;
+  p.collected -= tax;
+  p.slashed = true;
+  return tax;
+};
+
+const settleExitTax = (state: EngineState, config: SimulationConfig, events: EngineEvent[], playerId: string, tax: number) => {
+  const split = routeFee(state, config, tax);
+  events.push({ type: 'EXIT_TAX', playerId, amount: tax, ...split });
+  distribute(state, split.toQueue, events, 'FEE');
+};
+
+const injectJackpotBot = (state: EngineState, config: SimulationConfig, events: EngineEvent[]) => {
+  const deposit = config.jackpotAmount;
+  const botId = `JACKPOT_BOT_${state.historyCount}`;
+
+  const bot: Player = {
+    id: botId,
+    deposit: deposit,
+    target: deposit * 2.0,
+    collected: 0,
+    entryRound: state.currentRound,
+    timestamp: state.clock,
+    slashed: false,
+    multiplier: 2.0,
+    fastFilled: false,
+    isClientDeposit: false,
+    isUnlucky: false,
+    isReinvest: false
+  };
+  state.totalDeposited += deposit;
+  state.queue.push(bot);
+  events.push({ type: 'JACKPOT_BOT', playerId: botId, amount: deposit });
+};
+
+const applyRoundEnd = (state: EngineState, config: SimulationConfig, events: EngineEvent[], reason: RoundEndReason) => {
+  // Prevent double triggering
+  if (!state.roundActive) return;
+  state.roundActive = false;
+  // The last deposit's positions are not in the health metrics yet
+  state.roundPeakLiability = Math.max(state.roundPeakLiability, computeHealthMetrics(state.queue, state.protocolBalance, config).liability);
+
+  // 1. Jackpot (see engine/settlement.ts)
+  const winners = JACKPOT_POLICIES[config.jackpotPolicy]
+    .winners(state.queue, state.lastDepositorId, config.jackpotWinnerCount)
+    .map(i => state.queue[i]);
+  const prizes = splitJackpot(winners, state.jackpotBalance * config.jackpotPayoutShare);
+  winners.forEach((winner, i) => {
+      credit(events, 'JACKPOT', winner, prizes[i]);
+      winner.exitReason = 'JACKPOT_WIN';
+  });
+  const jackpotPaid = prizes.reduce((acc, prize) => acc + prize, 0);
+  state.jackpotBalance -= jackpotPaid;
+
+  // 2. MIDNIGHT REFUND (Distribute Reserve), minus what is carried into the next round
+  const stuckUsers = state.queue.filter(p => p.collected < p.deposit);
+  const stuckPrincipal = stuckUsers.reduce((acc, p) => acc + p.deposit - p.collected, 0);
+  const refundBudget = state.protocolBalance * (1 - config.reserveCarryOver);
+  const refunds = REFUND_POLICIES[config.refundPolicy].allocate(state.queue, refundBudget);
+  let refunded = 0;
+  let usersRefunded = 0;
+  let budgetLeft = refundBudget;
+  state.queue.forEach((p, i) => {
+      // Shares can add up to a hair over the budget by rounding; each is capped and paid from the reserve as it is credited
+      const refund = Math.min(refunds[i], budgetLeft);
+      if (refund <= 0) return;
+      credit(events, 'MIDNIGHT_REFUND', p, refund);
+      state.protocolBalance -= refund;
+      budgetLeft -= refund;
+      refunded += refund;
+
+      // If fully refunded (reached deposit), mark exits
+      if (p.collected >= p.deposit) {
+          p.exitReason = 'REFUND';
+          p.target = p.deposit;
+          usersRefunded++;
+      }
+  });
+
+  // Refunded and jackpot-winning positions are settled now; the rest stay trapped
+  for (const p of state.queue) {
+      if (p.exitReason === 'REFUND' || p.exitReason === 'JACKPOT_WIN') recordPayout(state.payouts, p, p.exitReason, p.collected);
+  }
+
+  // 3. Whoever is still short of target rolls into the next round or is written off when it opens
+  const trapped = state.queue.filter(p => !p.exitReason && p.id !== 'PROTOCOL_SEED');
+  trapped.forEach(p => { p.carriedOver = config.trappedPolicy === 'CARRY_OVER'; });
+  const carried = trapped.filter(p => p.carriedOver);
+  const writtenOff = trapped.filter(p => !p.carriedOver && isParticipant(p));
+  const opening = state.roundOpening;
+
+  // Log final state of this round
+  state.roundHistory.push({
+     roundNumber: state.gameRound,
+     finalBalance: state.protocolBalance,
+     totalVolume: state.totalDeposited,
+     winnerId: state.lastDepositorId || undefined,
+     timestamp: state.clock,
+     reason: reason,
+     startTime: state.roundStartTime,
+     settlement: {
+       jackpotPolicy: config.jackpotPolicy,
+       refundPolicy: config.refundPolicy,
+       jackpotPaid,
+       jackpotWinners: winners.map(p => p.id),
+       stuckUsers: stuckUsers.length,
+       stuckPrincipal,
+       refundBudget,
+       refunded,
+       usersRefunded,
+       leftBelowBreakEven: state.queue.filter(p => p.collected < p.deposit).length,
+       trappedPrincipal: trappedPrincipal(state.queue),
+       carriedOver: state.protocolBalance,
+       jackpotCarriedOver: state.jackpotBalance
+     },
+     accounting: {
+       trappedPolicy: config.trappedPolicy,
+       deposited: state.totalDeposited - opening.totalDeposited,
+       transactions: state.transactionsInCurrentRound,
+       peakLiability: state.roundPeakLiability,
+       reserveChange: state.protocolBalance - opening.protocolBalance,
+       jackpotChange: state.jackpotBalance - opening.jackpotBalance,
+       carriedIn: opening.carriedIn,
+       carriedInLiability: opening.carriedInLiability,
+       carriedOut: carried.length,
+       carriedOutLiability: unpaid(carried),
+       writtenOff: writtenOff.length,
+       writtenOffPrincipal: writtenOff.reduce((acc, p) => acc + Math.max(0, p.deposit - p.collected), 0),
+       writtenOffLiability: unpaid(writtenOff)
+     }
+  });
+  events.push({ type: 'ROUND_END', roundNumber: state.gameRound, reason });
+};
+
+const applyDeposit = (state: EngineState, config: SimulationConfig, events: EngineEvent[], request: DepositRequest) => {
+  const { isSystem = false, isClient = false, isReinvest = false, advanceTime = true } = request;
+  let amount = request.amount;
+
+  // CAP CHECK
+  if (amount > config.maxDepositLimit && !isSystem && !isReinvest) {
+      amount = config.maxDepositLimit;
+  }
+
+  // Update Health before processing
+  updateHealthMetrics(state, config);
+
+  if (advanceTime) {
+    state.tickCount++;
+    if (state.tickCount % DAILY_DRIP_INTERVAL === 0) applyDailyDrip(state, config, events);
+  }
+
+  // ROUND TIMER & TX COUNT LOGIC
+  if (!isSystem && !isReinvest) {
+      state.transactionsInCurrentRound++;
+
+      if (state.transactionsInCurrentRound > config.maxTransactions) {
+           // If we somehow exceed, refund immediately or just don't accept.
+           // But for simulation, we trigger end.
+           applyRoundEnd(state, config, events, 'CAP_REACHED');
+           return;
+      }
+
+      const now = state.clock;
+      const extension = ROUND_EXTENSION_SECONDS * 1000;
+      const maxTime = now + (MAX_ROUND_DURATION_SECONDS * 1000);
+      let newExpiry = state.roundExpiry + extension;
+      if (newExpiry > maxTime) newExpiry = maxTime;
+      state.roundExpiry = newExpiry;
+  }
+
+  // Fee Logic (Using Dynamic Fee)
+  let netAmount = amount;
+  let totalFee = 0;
+  let feeSplit = splitFee(config, 0);
+  const isTaxTarget = !isSystem && !isReinvest && config.penaltyEnabled && amount >= config.penaltyThreshold;
+  if (!isSystem && !isReinvest) {
+    const fee = amount * state.dynamicFee; // Uses the adaptive fee
+    // EXIT mode takes the tax from the payout instead (see settleExitTax)
+    const penalty = isTaxTarget && config.penaltyType === 'ENTRY' ? amount * config.penaltyRate : 0;
+    totalFee = Math.max(config.minimumFee, fee + penalty);
+    netAmount = amount - totalFee;
+    feeSplit = routeFee(state, config, totalFee);
+  }
+
+  state.totalDeposited += amount;
+
+  // Pools & Distribution
+  const yieldRatio = config.yieldSplit;
+  const yieldPool = netAmount * yieldRatio;
+  const headPool = netAmount * (1 - yieldRatio);
+
+  // Multiplier policy (see engine/multiplierPolicies.ts)
+  let effectiveMultiplier = multiplierFor(state, config);
+  state.currentAdaptiveMultiplier = effectiveMultiplier;
+
+  // Break Even Risk
+  let isUnlucky = false;
+  if (!isSystem && !isReinvest) {
+      if (nextRandom(state) < config.breakEvenChance) {
+          isUnlucky = true;
+          effectiveMultiplier = 1.0;
+      }
+  }
+
+  const playerId = isSystem ? 'PROTOCOL_SEED' : isClient ? `CLIENT_${nextId(state)}` : nextId(state);
+  if (!isSystem && !isReinvest) {
+      state.lastDepositorId = playerId;
+  }
+
+  const newPlayer: Player = {
+    id: playerId,
+    deposit: amount,
+    target: amount * effectiveMultiplier,
+    collected: 0,
+    entryRound: state.currentRound,
+    timestamp: state.clock,
+    slashed: false,
+    multiplier: effectiveMultiplier,
+    isTaxTarget,
+    fastFilled: false,
+    isClientDeposit: isClient,
+    isUnlucky: isUnlucky,
+    isReinvest: isReinvest
+  };
+  events.push({ type: 'DEPOSIT', playerId, amount, fee: totalFee, multiplier: effectiveMultiplier, isClient, isReinvest });
+  if (totalFee > 0) events.push({ type: 'FEE_SPLIT', playerId, ...feeSplit });
+  distribute(state, feeSplit.toQueue, events, 'FEE');
+
+  // Distribution Execution
+  if (yieldPool > 0 && state.queue.length > 0) {
+    const yieldShare = yieldPool / state.queue.length;
+    for (const p of state.queue) {
+      p.collected += yieldShare;
+    }
+    events.push({ type: 'YIELD', amount: yieldPool, share: yieldShare, playerIds: state.queue.map(p => p.id) });
+  }
+
+  distribute(state, headPool, events, 'HEAD');
+
+  state.queue.push(newPlayer);
+
+  const totalUsers = state.historyCount + state.queue.length;
+  if (totalUsers > 0 && totalUsers % config.jackpotFrequency === 0) injectJackpotBot(state, config, events);
+
+  // Cleanup Paid Users
+  const nextQueue: Player[] = [];
+  const recentExits: Player[] = [];
+  const exitTaxes: { playerId: string; tax: number }[] = [];
+
+  for (const p of state.queue) {
+    if (p.collected >= p.target - 0.01) {
+      p.collected = p.target;
+      const duration = state.currentRound - p.entryRound;
+      if (duration < 10) p.fastFilled = true;
+
+      if (p.isTaxTarget && config.penaltyType === 'EXIT') exitTaxes.push({ playerId: p.id, tax: slash(config, p) });
+      const profit = p.collected - p.deposit;
+      p.netProfit = profit;
+      p.exitRound = state.currentRound;
+      p.exitReason = p.slashed ? 'SLASHED' : p.isUnlucky ? 'REFUND' : 'PAID';
+
+      if (p.id.startsWith('JACKPOT_BOT')) {
+          state.jackpotBalance += profit;
+          events.push({ type: 'JACKPOT_BOT_PROFIT', playerId: p.id, amount: profit });
+      } else if (DISTRIBUTION_STRATEGIES[state.strategy].reinvest && !p.isUnlucky && !p.id.startsWith('PROTOCOL')) {
+           const reinvestAmt = p.collected * config.reinvestRate;
+           if (reinvestAmt > 5) {
+               state.pendingTransactions.push({
+                  amount: reinvestAmt,
+                  isClient: p.isClientDeposit || false,
+                  isReinvest: true
+               });
+               events.push({ type: 'REINVEST_QUEUED', playerId: p.id, amount: reinvestAmt });
+           }
+      }
+      state.historyCount++;
+      recordPayout(state.payouts, p, p.exitReason, p.collected);
+      recentExits.push(p);
+      events.push({ type: 'EXIT', playerId: p.id, reason: p.exitReason, collected: p.collected, netProfit: profit });
+    } else {
+      nextQueue.push(p);
+    }
+  }
+
+  state.queue = nextQueue;
+  state.exits = [...recentExits, ...state.exits].slice(0, EXIT_BUFFER_SIZE);
+  state.currentRound++;
+  // Queue shares of the tax can fill positions up; those exit with the next deposit
+  exitTaxes.forEach(({ playerId, tax }) => settleExitTax(state, config, events, playerId, tax));
+
+  // Check tx cap at end of processing as well to be safe
+  if (!isSystem && !isReinvest && state.transactionsInCurrentRound >= config.maxTransactions) {
+      applyRoundEnd(state, config, events, 'CAP_REACHED');
+  }
+};
+
+// --- PUBLIC STEPS ---
+export const processDeposit = (state: EngineState, config: SimulationConfig, request: DepositRequest): EngineStep =>
+  step(state, (next, events) => applyDeposit(next, config, events, request));
+
+export const triggerDailyDrip = (state: EngineState, config: SimulationConfig): EngineStep =>
+  step(state, (next, events) => applyDailyDrip(next, config, events));
+
+export const handleEmergencyWithdraw = (state: EngineState, config: SimulationConfig, playerId: string): EngineStep =>
+  step(state, (next, events) => applyEmergencyWithdraw(next, config, events, playerId));
+
+export const triggerRoundEnd = (state: EngineState, config: SimulationConfig, reason: RoundEndReason): EngineStep =>
+  step(state, (next, events) => applyRoundEnd(next, config, events, reason));
+
+export const startNextRound = (state: EngineState, config: SimulationConfig): EngineStep =>
+  step(state, (next, events) => {
+    // Positions marked at round end keep their order behind a fresh seed; the rest leave with what they collected
+    const carried = next.queue.filter(p => p.carriedOver);
+    let settledCollected = 0;
+    next.queue.filter(p => !p.carriedOver).forEach(p => {
+      if (!p.exitReason && isParticipant(p)) {
+        next.writtenOffUsers++;
+        next.writtenOffPrincipal += Math.max(0, p.deposit - p.collected);
+        recordPayout(next.payouts, p, 'WRITE_OFF', p.collected);
+        events.push({ type: 'WRITE_OFF', playerId: p.id, collected: p.collected, unpaid: Math.max(0, p.target - p.collected) });
+      } else {
+        settledCollected += p.collected;
+      }
+    });
+    carried.forEach(p => { p.carriedOver = false; });
+    next.queue = [createSeedPlayer(next.currentRound, next.clock), ...carried];
+
+    next.gameRound++;
+    next.roundStartTime = next.clock;
+    next.roundOpening = openRound(next, carried);
+    next.roundExpiry = next.clock + (config.roundDurationSeconds * 1000);
+    next.roundActive = true;
+    next.lastDepositorId = 'PROTOCOL_SEED';
+    next.transactionsInCurrentRound = 0;
+
+    // Reset Liabilities for chart visualization
+    next.currentLiability = 0;
+    next.roundPeakLiability = 0;
+    updateHealthMetrics(next, config);
+    events.push({ type: 'ROUND_START', roundNumber: next.gameRound, settledCollected });
+  });
+
+// One heartbeat of the auto-run: advance the clock, timer check, queued reinvests, then depositor traffic
+export const runTick = (state: EngineState, config: SimulationConfig, behavior: BehaviorSettings = DEFAULT_BEHAVIOR): EngineStep =>
+  step(state, (next, events) => {
+    if (!next.roundActive) return;
+
+    advanceClock(next, config.secondsPerTick);
+    next.elapsedTicks++;
+    next.exitMomentum *= EXIT_MOMENTUM_DECAY;
+
+    // Check Round Timer
+    if (next.clock > next.roundExpiry) {
+       applyRoundEnd(next, config, events, 'TIMER');
+       return;
+    }
+
+    const pending = next.pendingTransactions;
+    next.pendingTransactions = [];
+    pending.forEach(tx => applyDeposit(next, config, events, { amount: tx.amount, isClient: tx.isClient, isReinvest: tx.isReinvest, advanceTime: false }));
+
+    // Simulation Bot Activity (see engine/behaviors.ts)
+    BEHAVIOR_MODELS[behavior.model].tick({
+      state: next,
+      config,
+      params: resolveBehaviorParams(behavior),
+      random: () => nextRandom(next),
+      deposit: amount => {
+        if (next.roundActive) applyDeposit(next, config, events, { amount });
+      },
+      // Random Emergency Withdraw (Panic Simulation)
+      panicExit: () => {
+        // A deposit earlier this tick may have hit the cap and settled the round
+        if (!next.roundActive) return;
+        const eligible = next.queue.filter(p => !p.id.startsWith('PROTOCOL') && !p.id.startsWith('JACKPOT') && !p.isClientDeposit);
+        if (eligible.length > 0) {
+            const victim = pickRandom(next, eligible);
+            applyEmergencyWithdraw(next, config, events, victim.id);
+        }
+      }
+    });
+  });
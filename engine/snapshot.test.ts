@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DistributionStrategy } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { DEFAULT_BEHAVIOR } from './behaviors';
+import { createScenario } from './scenario';
+import { createSeriesRecorder } from './series';
+import { createSnapshot, parseSnapshot, serializeSnapshot } from './snapshot';
+import { createEngineState, processDeposit } from './simulationEngine';
+
+const scenario = createScenario({
+  name: 'Snapshot',
+  description: '',
+  config: DEFAULT_CONFIG,
+  multiplier: 2,
+  strategy: DistributionStrategy.STANDARD,
+  behavior: DEFAULT_BEHAVIOR,
+  seed: 1,
+  ticks: 100
+});
+
+const midRound = () =>
+  [300, 500, 200].reduce((state, amount) => processDeposit(state, DEFAULT_CONFIG, { amount }).state, createEngineState(DEFAULT_CONFIG, { seed: 1 }));
+
+describe('parseSnapshot', () => {
+  it('round-trips a live state', () => {
+    const state = midRound();
+    expect(parseSnapshot(serializeSnapshot(createSnapshot(scenario, state, 0))).state).toEqual(state);
+  });
+
+  it('keeps the recorded chart series, and loads snapshots saved without one', () => {
+    const state = midRound();
+    const series = createSeriesRecorder(state).save();
+
+    expect(parseSnapshot(serializeSnapshot(createSnapshot(scenario, state, 0, series))).series).toEqual(series);
+    expect(parseSnapshot(serializeSnapshot(createSnapshot(scenario, state, 0))).series).toBeUndefined();
+  });
+
+  it('rejects a malformed chart series', () => {
+    const text = (series: unknown) => JSON.stringify({ version: 1, savedAt: 0, scenario, state: midRound(), series });
+    const series = createSeriesRecorder(midRound()).save();
+
+    expect(() => parseSnapshot(text({ ...series, points: [{ tick: 0 }] }))).toThrow('series.points must be a list of chart points');
+    expect(() => parseSnapshot(text({ ...series, stride: 0 }))).toThrow('series.stride must be a positive integer');
+  });
+
+  it('starts an older snapshot\'s round baselines from the restored state', () => {
+    const state = midRound();
+    const { roundOpening: _opening, roundPeakLiability: _peak, ...older } = state;
+    const restored = parseSnapshot(JSON.stringify({ version: 1, savedAt: 0, scenario, state: older })).state;
+
+    expect(restored.roundOpening).toEqual({
+      totalDeposited: state.totalDeposited,
+      protocolBalance: state.protocolBalance,
+      jackpotBalance: state.jackpotBalance,
+      carriedIn: 0,
+      carriedInLiability: 0
+    });
+    expect(restored.roundPeakLiability).toBe(state.currentLiability);
+  });
+
+  it('starts write-off payouts at zero for snapshots saved before they were booked', () => {
+    const state = midRound();
+    const { WRITE_OFF: _writeOff, ...byReason } = state.payouts.byReason;
+    const older = { ...state, payouts: { ...state.payouts, byReason } };
+    const restored = parseSnapshot(JSON.stringify({ version: 1, savedAt: 0, scenario, state: older })).state;
+
+    expect(restored.payouts.byReason).toEqual({ ...byReason, WRITE_OFF: 0 });
+  });
+});
@@ -0,0 +1,93 @@
+import { DistributionStrategy, EngineSnapshot, EngineState, RecordedSeries, Scenario } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { emptyPayouts } from './payouts';
+import { isObject, validateScenario } from './scenario';
+import { samplePoint } from './series';
+import { createEngineState, openRound } from './simulationEngine';
+
+export const SNAPSHOT_VERSION = 1;
+
+// Fields that may legitimately hold null in a live state
+const NULLABLE_FIELDS: (keyof EngineState)[] = ['lastDepositorId'];
+// Added after version 1 shipped; older snapshots start them from the fresh-state value
+const LATER_FIELDS: (keyof EngineState)[] = ['payouts', 'roundStartTime', 'operatorBalance', 'writtenOffUsers', 'writtenOffPrincipal', 'roundOpening', 'roundPeakLiability'];
+// ...except the round baselines, which start from the restored state so the current round is measured from the save.
+// Snapshots without them predate carry-over, so nothing was carried in.
+const restoredBaselines = (state: EngineState): Partial<EngineState> => ({
+  roundOpening: openRound(state, []),
+  roundPeakLiability: state.currentLiability
+});
+
+export const createSnapshot = (scenario: Scenario, state: EngineState, savedAt = Date.now(), series?: RecordedSeries): EngineSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  savedAt,
+  scenario,
+  state,
+  ...(series && { series })
+});
+
+export const serializeSnapshot = (snapshot: EngineSnapshot): string => JSON.stringify(snapshot);
+
+// Shape check against a fresh state: every field present with the same JSON type
+const validateEngineState = (raw: unknown): EngineState => {
+  if (!isObject(raw)) throw new Error('state must be a JSON object');
+  const template = createEngineState(DEFAULT_CONFIG, { seed: 1 });
+  const missing = LATER_FIELDS.filter(key => raw[key] === undefined);
+
+  (Object.keys(template) as (keyof EngineState)[]).forEach(key => {
+    if (missing.includes(key)) raw[key] = template[key];
+    const value = raw[key];
+    if (value === undefined) throw new Error(`state.${key} is missing`);
+    if (value === null && NULLABLE_FIELDS.includes(key)) return;
+    const expected = template[key];
+    const matches = Array.isArray(expected) ? Array.isArray(value) : typeof value === typeof expected || (expected === null && typeof value === 'string');
+    if (!matches) throw new Error(`state.${key} has the wrong type`);
+  });
+  if (!Object.values(DistributionStrategy).includes(raw.strategy as DistributionStrategy)) {
+    throw new Error(`unknown strategy "${String(raw.strategy)}"`);
+  }
+  const state = raw as unknown as EngineState;
+  // Payouts saved before write-offs were booked have no WRITE_OFF entry
+  state.payouts.byReason = { ...emptyPayouts().byReason, ...state.payouts.byReason };
+  Object.entries(restoredBaselines(state)).forEach(([key, value]) => {
+    if (missing.includes(key as keyof EngineState)) raw[key] = value;
+  });
+  return state;
+};
+
+const isCount = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+const validateSeries = (raw: unknown): RecordedSeries => {
+  if (!isObject(raw)) throw new Error('series must be a JSON object');
+  const fields = Object.keys(samplePoint(createEngineState(DEFAULT_CONFIG, { seed: 1 }), 0, 0));
+  if (!Array.isArray(raw.points) || !raw.points.every(p => isObject(p) && fields.every(key => typeof p[key] === 'number'))) {
+    throw new Error('series.points must be a list of chart points');
+  }
+  if (!isCount(raw.stride, 1)) throw new Error('series.stride must be a positive integer');
+  if (!isCount(raw.steps, 0)) throw new Error('series.steps must be a non-negative integer');
+  if (typeof raw.totalExits !== 'number') throw new Error('series.totalExits must be a number');
+  return raw as unknown as RecordedSeries;
+};
+
+export const parseSnapshot = (text: string): EngineSnapshot => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(raw)) throw new Error('snapshot must be a JSON object');
+  if (raw.version !== SNAPSHOT_VERSION) throw new Error(`unsupported snapshot version ${String(raw.version)} (expected ${SNAPSHOT_VERSION})`);
+  if (typeof raw.savedAt !== 'number') throw new Error('missing "savedAt"');
+
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: raw.savedAt,
+    scenario: validateScenario(raw.scenario),
+    state: validateEngineState(raw.state),
+    ...(raw.series !== undefined && { series: validateSeries(raw.series) })
+  };
+};
+
+export const snapshotFileName = (snapshot: EngineSnapshot): string =>
+  `snapshot-seed${snapshot.state.seed}-round${snapshot.state.gameRound}-tick${snapshot.state.elapsedTicks}.json`;
@@ -0,0 +1,81 @@
+import { Distribution, HistogramBin, LorenzPoint } from '../types';
+
+// Linear interpolation between closest ranks; expects a sorted array
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const summarizeDistribution = (samples: number[]): Distribution => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = count > 0 ? sorted.reduce((acc, v) => acc + v, 0) / count : 0;
+  return {
+    count,
+    mean,
+    min: count > 0 ? sorted[0] : 0,
+    max: count > 0 ? sorted[count - 1] : 0,
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95)
+  };
+};
+
+// Equal-width bins over [min, max]; a flat sample set collapses into one bin
+export const buildHistogram = (samples: number[], binCount: number = 20): HistogramBin[] => {
+  if (samples.length === 0) return [];
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of samples) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === max) return [{ x0: min, x1: max, count: samples.length }];
+
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    x0: min + i * width,
+    x1: min + (i + 1) * width,
+    count: 0
+  }));
+  for (const v of samples) {
+    const index = Math.min(binCount - 1, Math.floor((v - min) / width));
+    bins[index].count++;
+  }
+  return bins;
+};
+
+// Cumulative share held by the poorest x% of the population; values must be non-negative
+export const lorenzCurve = (values: number[], points: number = 20): LorenzPoint[] => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((acc, v) => acc + v, 0);
+  if (sorted.length === 0 || total <= 0) return [{ population: 0, share: 0 }, { population: 1, share: 1 }];
+
+  const curve: LorenzPoint[] = [{ population: 0, share: 0 }];
+  let running = 0;
+  let next = 1;
+  sorted.forEach((v, i) => {
+    running += v;
+    const population = (i + 1) / sorted.length;
+    if (population >= next / points || i === sorted.length - 1) {
+      curve.push({ population, share: running / total });
+      while (next / points <= population) next++;
+    }
+  });
+  return curve;
+};
+
+// 0 = everyone holds the same, 1 = one participant holds everything
+export const giniCoefficient = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((acc, v) => acc + v, 0);
+  if (n === 0 || total <= 0) return 0;
+  const weighted = sorted.reduce((acc, v, i) => acc + (i + 1) * v, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { resolveSweepField, runSweep, sweepFields, sweepGrid, withSweepValue } from './sweep';
+
+const policy = (id: SimulationConfig['multiplierPolicy']['policy']): SimulationConfig =>
+  ({ ...DEFAULT_CONFIG, multiplierPolicy: { policy: id, params: {} } });
+
+describe('sweep fields', () => {
+  it('offers the active multiplier policy\'s settings, by full or bare name', () => {
+    expect(sweepFields(policy('LOGISTIC_DECAY'))['multiplierPolicy.params.decayRate']).toMatchObject({ min: 0.001, max: 0.05 });
+    expect(resolveSweepField(policy('LOGISTIC_DECAY'), 'decayRate')).toBe('multiplierPolicy.params.decayRate');
+    expect(resolveSweepField(policy('LOGISTIC_DECAY'), 'feePercent')).toBe('feePercent');
+    expect(resolveSweepField(policy('FIXED'), 'decayRate')).toBeNull();
+  });
+
+  it('sets a policy setting without touching the base config', () => {
+    const base = policy('LOGISTIC_DECAY');
+    const swept = withSweepValue(base, 'multiplierPolicy.params.decayRate', 0.02);
+    expect(swept.multiplierPolicy).toEqual({ policy: 'LOGISTIC_DECAY', params: { decayRate: 0.02 } });
+    expect(base.multiplierPolicy.params).toEqual({});
+  });
+
+  it('rounds whole-number policy settings along the axis', () => {
+    const xAxis = { field: 'multiplierPolicy.params.queueTarget' as const, from: 20, to: 500, steps: 4 };
+    expect(sweepGrid(policy('TARGET_100'), { xAxis, runsPerCell: 1, ticks: 1, baseSeed: 1 }).map(c => c.x)).toEqual([20, 180, 340, 500]);
+  });
+});
+
+describe('runSweep', () => {
+  it('varies the decay rate of the running policy', () => {
+    const report = runSweep(policy('LOGISTIC_DECAY'), {
+      xAxis: { field: 'multiplierPolicy.params.decayRate', from: 0.001, to: 0.05, steps: 2 },
+      runsPerCell: 1,
+      ticks: 400,
+      baseSeed: 3
+    });
+
+    expect(report.cells.map(c => c.x)).toEqual([0.001, 0.05]);
+    // Faster decay promises less, so the reserve covers more of what is owed
+    expect(report.cells[1].metrics.healthAtRoundEnd).toBeGreaterThan(report.cells[0].metrics.healthAtRoundEnd);
+  });
+});
@@ -0,0 +1,148 @@
+import { BehaviorSettings, DistributionStrategy, MonteCarloTrial, SimulationConfig, SweepAxis, SweepCell, SweepConfigField, SweepField, SweepMetricId, SweepReport } from '../types';
+import { runMonteCarloTrial } from './monteCarlo';
+import { MULTIPLIER_POLICIES } from './multiplierPolicies';
+
+export interface SweepOptions {
+  xAxis: SweepAxis;
+  yAxis?: SweepAxis | null;
+  runsPerCell: number;
+  ticks: number;
+  baseSeed: number; // Every cell replays the same seeds, so differences come from the knobs alone
+  multiplier?: number;
+  strategy?: DistributionStrategy;
+  behavior?: BehaviorSettings;
+}
+
+export interface SweepFieldInfo {
+  label: string;
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+export const SWEEP_FIELDS: Partial<Record<SweepConfigField, SweepFieldInfo>> = {
+  feePercent: { label: 'Entry Fee', min: 0, max: 0.2 },
+  dailyDripRate: { label: 'Daily Drip Rate', min: 0, max: 1 },
+  penaltyRate: { label: 'Tax Rate', min: 0.01, max: 0.5 },
+  penaltyThreshold: { label: 'Tax Threshold', min: 100, max: 2000, integer: true },
+  breakEvenChance: { label: 'Break Even Chance', min: 0, max: 0.5 },
+  yieldSplit: { label: 'Yield Split', min: 0, max: 1 },
+  initialReserve: { label: 'Initial Reserve', min: 0, max: 100000, integer: true },
+  reinvestRate: { label: 'Reinvest Rate', min: 0, max: 1 },
+  reverseYieldRate: { label: 'Reverse Yield Rate', min: 0, max: 1 },
+  maxDepositLimit: { label: 'Max Deposit', min: 100, max: 5000, integer: true },
+  maxTransactions: { label: 'Tx Cap per Round', min: 100, max: 5000, integer: true },
+  minimumFee: { label: 'Minimum Fee', min: 0, max: 20 },
+  feeToOperator: { label: 'Operator Fee Share', min: 0, max: 1 },
+  feeToQueue: { label: 'Queue Fee Share', min: 0, max: 1 },
+  jackpotPayoutShare: { label: 'Jackpot Payout Share', min: 0, max: 1 },
+  reserveCarryOver: { label: 'Reserve Carry-over', min: 0, max: 1 }
+};
+
+const POLICY_PARAM_PREFIX = 'multiplierPolicy.params.';
+
+// The fields above plus the settings of whichever multiplier policy the config runs
+export const sweepFields = (config: SimulationConfig): Partial<Record<SweepField, SweepFieldInfo>> => {
+  const policy = MULTIPLIER_POLICIES[config.multiplierPolicy.policy];
+  const fields: Partial<Record<SweepField, SweepFieldInfo>> = { ...SWEEP_FIELDS };
+  Object.entries(policy.params).forEach(([key, info]) => {
+    fields[`${POLICY_PARAM_PREFIX}${key}`] = { label: `${policy.label}: ${info.label}`, min: info.min, max: info.max, integer: Number.isInteger(info.step) };
+  });
+  return fields;
+};
+
+// Accepts a policy setting by its bare name too (decayRate for multiplierPolicy.params.decayRate)
+export const resolveSweepField = (config: SimulationConfig, name: string): SweepField | null => {
+  const fields = sweepFields(config);
+  if (name in fields) return name as SweepField;
+  const prefixed = `${POLICY_PARAM_PREFIX}${name}` as SweepField;
+  return prefixed in fields ? prefixed : null;
+};
+
+export const withSweepValue = (config: SimulationConfig, field: SweepField, value: number): SimulationConfig => {
+  if (!field.startsWith(POLICY_PARAM_PREFIX)) return { ...config, [field]: value };
+  const params = { ...config.multiplierPolicy.params, [field.slice(POLICY_PARAM_PREFIX.length)]: value };
+  return { ...config, multiplierPolicy: { ...config.multiplierPolicy, params } };
+};
+
+export interface SweepMetricInfo {
+  label: string;
+  higherIsBetter: boolean;
+  evaluate: (trial: MonteCarloTrial) => number;
+}
+
+const mean = (values: number[], fallback: number) =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : fallback;
+
+export const SWEEP_METRICS: Record<SweepMetricId, SweepMetricInfo> = {
+  losingShare: {
+    label: 'Share of depositors who lost money',
+    higherIsBetter: false,
+    evaluate: t => t.depositors > 0 ? t.losingDepositors / t.depositors : 0
+  },
+  healthAtRoundEnd: {
+    label: 'Health factor at round end',
+    higherIsBetter: true,
+    evaluate: t => mean(t.healthAtRoundEnd, t.summary.finalHealthFactor)
+  },
+  trappedAtRoundEnd: {
+    label: 'Users trapped at round end',
+    higherIsBetter: false,
+    evaluate: t => mean(t.trappedAtRoundEnd, t.summary.usersTrapped)
+  },
+  finalProtocolBalance: {
+    label: 'Final protocol balance',
+    higherIsBetter: true,
+    evaluate: t => t.summary.protocolBalance
+  },
+  totalPaidOut: {
+    label: 'Paid to users',
+    higherIsBetter: true,
+    evaluate: t => t.summary.totalPaidOut
+  },
+  operatorTake: {
+    label: 'Operator take',
+    higherIsBetter: false,
+    evaluate: t => t.summary.operatorBalance
+  }
+};
+
+export const axisValues = (axis: SweepAxis, fields: Partial<Record<SweepField, SweepFieldInfo>>): number[] => {
+  const steps = Math.max(1, Math.floor(axis.steps));
+  if (steps === 1) return [axis.from];
+  const integer = fields[axis.field]?.integer;
+  return Array.from({ length: steps }, (_, i) => {
+    const value = axis.from + ((axis.to - axis.from) * i) / (steps - 1);
+    return integer ? Math.round(value) : value;
+  });
+};
+
+// Cells in row-major order (y outer, x inner) so a UI can render them straight into a grid
+export const sweepGrid = (base: SimulationConfig, options: SweepOptions): { x: number; y: number | null }[] => {
+  const fields = sweepFields(base);
+  const xs = axisValues(options.xAxis, fields);
+  const ys = options.yAxis ? axisValues(options.yAxis, fields) : [null];
+  return ys.flatMap(y => xs.map(x => ({ x, y })));
+};
+
+export const runSweepCell = (base: SimulationConfig, options: SweepOptions, x: number, y: number | null): SweepCell => {
+  let config = withSweepValue(base, options.xAxis.field, x);
+  if (options.yAxis && y !== null) config = withSweepValue(config, options.yAxis.field, y);
+
+  const trialOptions = { runs: options.runsPerCell, ticks: options.ticks, baseSeed: options.baseSeed, multiplier: options.multiplier, strategy: options.strategy, behavior: options.behavior };
+  const trials = Array.from({ length: options.runsPerCell }, (_, i) => runMonteCarloTrial(config, trialOptions, i));
+
+  const metrics = {} as Record<SweepMetricId, number>;
+  (Object.keys(SWEEP_METRICS) as SweepMetricId[]).forEach(id => {
+    metrics[id] = mean(trials.map(SWEEP_METRICS[id].evaluate), 0);
+  });
+  return { x, y, metrics };
+};
+
+export const runSweep = (base: SimulationConfig, options: SweepOptions): SweepReport => ({
+  xAxis: options.xAxis,
+  yAxis: options.yAxis ?? null,
+  runsPerCell: options.runsPerCell,
+  ticks: options.ticks,
+  cells: sweepGrid(base, options).map(({ x, y }) => runSweepCell(base, options, x, y))
+});
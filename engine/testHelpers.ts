@@ -0,0 +1,23 @@
+import { EngineState, Player, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { createEngineState } from './simulationEngine';
+
+// Shared by the engine tests. Flat 5% fee, fixed 2x multiplier: easy numbers unless a test turns something on
+export const config: SimulationConfig = { ...DEFAULT_CONFIG, multiplierPolicy: { policy: 'FIXED', params: {} }, penaltyEnabled: false };
+
+export const player = (id: string, deposit: number, fields: Partial<Player> = {}): Player => ({
+  id,
+  deposit,
+  target: deposit * 2,
+  collected: 0,
+  entryRound: 1,
+  timestamp: 0,
+  multiplier: 2,
+  ...fields
+});
+
+export const stateWith = (queue: Player[], fields: Partial<EngineState> = {}, cfg = config): EngineState => ({
+  ...createEngineState(cfg, { seed: 1, multiplier: 2 }),
+  queue,
+  ...fields
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { PlayerOutcome, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { giniCoefficient, lorenzCurve } from './statistics';
+import { wealthTransfer } from './wealth';
+import { createOutcomeTracker, OutcomeTracker } from './outcomes';
+import { createEngineState, processDeposit, triggerDailyDrip } from './simulationEngine';
+import { runSimulation } from './runner';
+
+const outcome = (netProfit: number, funding: Partial<PlayerOutcome['funding']> = {}, fields: Partial<PlayerOutcome> = {}): PlayerOutcome => ({
+  playerId: 'p',
+  deposit: 100,
+  collected: 100 + netProfit,
+  netProfit,
+  outcome: netProfit >= 0 ? 'PAID' : 'TRAPPED',
+  isOrganic: true,
+  entryIndex: 0,
+  entryTime: 0,
+  exitTime: 0,
+  funding: { DEPOSITS: 0, INITIAL_RESERVE: 0, FEES: 0, JACKPOT: 0, ...funding },
+  ...fields
+});
+
+describe('inequality measures', () => {
+  it('gives 0 for an equal split and approaches 1 when one holds everything', () => {
+    expect(giniCoefficient([5, 5, 5, 5])).toBeCloseTo(0);
+    expect(giniCoefficient([0, 0, 0, 100])).toBeCloseTo(0.75);
+    expect(giniCoefficient([])).toBe(0);
+  });
+
+  it('builds a Lorenz curve from the poorest up', () => {
+    const curve = lorenzCurve([0, 0, 0, 100], 4);
+    expect(curve).toEqual([
+      { population: 0, share: 0 },
+      { population: 0.25, share: 0 },
+      { population: 0.5, share: 0 },
+      { population: 0.75, share: 0 },
+      { population: 1, share: 1 }
+    ]);
+    expect(lorenzCurve([])).toEqual([{ population: 0, share: 0 }, { population: 1, share: 1 }]);
+  });
+});
+
+describe('wealthTransfer', () => {
+  it('splits profit in proportion to where the collected money came from', () => {
+    const transfer = wealthTransfer([
+      outcome(100, { DEPOSITS: 150, INITIAL_RESERVE: 50 }),
+      outcome(-60),
+      outcome(50, { JACKPOT: 150 }),
+      outcome(20, {}, { outcome: 'OPEN' }),
+      outcome(500, { DEPOSITS: 600 }, { isOrganic: false })
+    ]);
+
+    expect(transfer).toMatchObject({ winners: 2, losers: 1, totalProfit: 150, totalLoss: 60 });
+    expect(transfer.profitBySource).toEqual({ DEPOSITS: 75, INITIAL_RESERVE: 25, FEES: 0, JACKPOT: 50 });
+  });
+});
+
+describe('outcome funding', () => {
+  it('attributes drips to the opening reserve and fees pro rata', () => {
+    const config: SimulationConfig = { ...DEFAULT_CONFIG, multiplierPolicy: { policy: 'FIXED', params: {} }, penaltyEnabled: false, initialReserve: 1000 };
+    let state = createEngineState(config, { seed: 1 });
+    const tracker = createOutcomeTracker(state);
+
+    const deposit = processDeposit(state, config, { amount: 200 }); // 5 to the reserve, 190 to the seed
+    tracker.observe(deposit.events, deposit.state);
+    const drip = triggerDailyDrip(deposit.state, config); // 100.5 to the seed
+    tracker.observe(drip.events, drip.state);
+    state = drip.state;
+
+    const seed = tracker.finalize(state).find(o => o.playerId === 'PROTOCOL_SEED')!;
+    expect(seed.funding.DEPOSITS).toBeCloseTo(190);
+    expect(seed.funding.INITIAL_RESERVE).toBeCloseTo(100.5 * (1000 / 1005));
+    expect(seed.funding.FEES).toBeCloseTo(100.5 * (5 / 1005));
+  });
+
+  it('accounts for everything a paid depositor collected', () => {
+    let tracker = null as OutcomeTracker | null;
+    const { finalState } = runSimulation({ ...DEFAULT_CONFIG, yieldSplit: 0.2 }, {
+      ticks: 3000,
+      seed: 11,
+      onStart: state => { tracker = createOutcomeTracker(state); },
+      onEvents: (events, state) => tracker?.observe(events, state)
+    });
+    const paid = tracker!.finalize(finalState).filter(o => o.outcome === 'PAID');
+
+    expect(paid.length).toBeGreaterThan(0);
+    const unexplained = paid.filter(o => Math.abs(o.funding.DEPOSITS + o.funding.INITIAL_RESERVE + o.funding.FEES + o.funding.JACKPOT - o.collected) > 0.02);
+    expect(unexplained).toEqual([]);
+  });
+});
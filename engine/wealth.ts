@@ -0,0 +1,34 @@
+import { FundingSource, PlayerOutcome, WealthTransfer } from '../types';
+
+export const FUNDING_SOURCES: FundingSource[] = ['DEPOSITS', 'INITIAL_RESERVE', 'FEES', 'JACKPOT'];
+
+// Settled organic depositors only: open positions have not won or lost anything yet
+export const settledDepositors = (outcomes: PlayerOutcome[]): PlayerOutcome[] =>
+  outcomes.filter(o => o.isOrganic && o.outcome !== 'OPEN');
+
+// A winner's profit is split across sources in the same proportions as everything they collected
+export const wealthTransfer = (outcomes: PlayerOutcome[]): WealthTransfer => {
+  const result: WealthTransfer = {
+    winners: 0,
+    losers: 0,
+    totalProfit: 0,
+    totalLoss: 0,
+    profitBySource: { DEPOSITS: 0, INITIAL_RESERVE: 0, FEES: 0, JACKPOT: 0 }
+  };
+
+  for (const o of settledDepositors(outcomes)) {
+    if (o.netProfit < 0) {
+      result.losers++;
+      result.totalLoss -= o.netProfit;
+      continue;
+    }
+    if (o.netProfit === 0) continue;
+
+    result.winners++;
+    result.totalProfit += o.netProfit;
+    const funded = FUNDING_SOURCES.reduce((acc, source) => acc + o.funding[source], 0);
+    if (funded <= 0) continue;
+    FUNDING_SOURCES.forEach(source => { result.profitBySource[source] += o.netProfit * (o.funding[source] / funded); });
+  }
+  return result;
+};
@@ -0,0 +1,306 @@
+// Headless batch runner: npm run sim -- --config cfg.json --ticks 20000 --seed 42
+import { parseArgs } from 'node:util';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { BehaviorModelId, BehaviorSettings, DistributionStrategy, Scenario, SimulationConfig, SweepAxis } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_MULTIPLIER, DEFAULT_RUN_LENGTH } from '../engine/defaults';
+import { runSimulation } from '../engine/runner';
+import { runMonteCarlo } from '../engine/monteCarlo';
+import { resolveSweepField, runSweep, sweepFields } from '../engine/sweep';
+import { COMPARISON_METRICS, compareRuns, comparisonToCsv, runComparison } from '../engine/comparison';
+import { randomSeed } from '../engine/random';
+import { BEHAVIOR_MODELS, DEFAULT_BEHAVIOR } from '../engine/behaviors';
+import { createScenario, parseConfigOverrides, parseScenario, serializeScenario } from '../engine/scenario';
+import { REFERENCE_SCENARIOS } from '../engine/referenceScenarios';
+import { toCsv } from '../engine/csv';
+import { PAYOUT_REASONS } from '../engine/payouts';
+import { createOutcomeTracker, OutcomeTracker } from '../engine/outcomes';
+import { buildCohorts, cohortsToCsv } from '../engine/cohorts';
+import { roundsToCsv } from '../engine/rounds';
+import { createLedger, Ledger, ledgerToCsv } from '../engine/ledger';
+import { createInvariantChecker, describeViolation, InvariantChecker } from '../engine/invariants';
+
+const USAGE = `Usage: npm run sim -- [options]
+
+  --scenario <file|id>   Scenario JSON, or a bundled one: ${Object.keys(REFERENCE_SCENARIOS).join(', ')}
+                         (the flags below override its settings)
+  --config <file>        JSON with SimulationConfig fields (merged over the defaults)
+  --ticks <n>            Engine ticks to run (default ${DEFAULT_RUN_LENGTH})
+  --seed <n>             PRNG seed (default: random)
+  --multiplier <x>       Fixed multiplier when no adaptive strategy is on (default ${DEFAULT_MULTIPLIER})
+  --strategy <name>      ${Object.values(DistributionStrategy).join(' | ')}
+  --behavior <model>     Depositor behavior: ${Object.keys(BEHAVIOR_MODELS).join(' | ')} (default ${DEFAULT_BEHAVIOR.model})
+  --behavior-param <k=v> Override one behavior model parameter (repeatable)
+  --sample-every <n>     Write one series row every n ticks (default 1)
+  --ledger               Also write every money flow of the run to ledger.csv
+  --cohorts <n>          Also write cohorts.csv: depositors grouped per n deposits
+  --strict               Exit with code 1 if funds are not conserved after some step
+  --runs <n>             Monte Carlo mode: n runs seeded seed, seed+1, ... (default 1;
+                         runs per cell in sweep mode)
+  --sweep-x <spec>       Sweep mode: field=from:to:steps, e.g. feePercent=0:0.2:5; multiplier
+                         policy settings by name, e.g. decayRate=0.001:0.05:5
+  --sweep-y <spec>       Optional second sweep axis (same format)
+  --compare <list>       Comparison mode: comma-separated scenario files or ids, each run
+                         against the setup above with the same seed, behavior and ticks
+  --out <dir>            Output directory (default sim-output)
+  --help                 Show this message
+`;
+
+const fail = (message: string): never => {
+  console.error(`Error: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseNumber = (name: string, raw: string | undefined): number | undefined => {
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) fail(`--${name} must be a number, got "${raw}"`);
+  return value;
+};
+
+// Run lengths and counts, checked like a scenario's ticks
+const parseCount = (name: string, raw: string | undefined): number | undefined => {
+  const value = parseNumber(name, raw);
+  if (value !== undefined && (!Number.isInteger(value) || value < 1)) fail(`--${name} must be a positive integer, got "${raw}"`);
+  return value;
+};
+
+const parseAxis = (name: string, raw: string | undefined, config: SimulationConfig): SweepAxis | null => {
+  if (raw === undefined) return null;
+  const match = /^([\w.]+)=([^:]+):([^:]+):(\d+)$/.exec(raw);
+  if (!match) return fail(`--${name} must look like field=from:to:steps, got "${raw}"`);
+  const field = resolveSweepField(config, match[1]);
+  if (!field) return fail(`--${name}: "${match[1]}" is not sweepable under ${config.multiplierPolicy.policy} (${Object.keys(sweepFields(config)).join(', ')})`);
+  return {
+    field,
+    from: parseNumber(name, match[2])!,
+    to: parseNumber(name, match[3])!,
+    steps: parseNumber(name, match[4])!
+  };
+};
+
+const parseBehavior = (model: string | undefined, rawParams: string[] = [], base: BehaviorSettings): BehaviorSettings => {
+  const id = (model ?? base.model) as BehaviorModelId;
+  if (!(id in BEHAVIOR_MODELS)) return fail(`unknown behavior "${model}"`);
+  const params: Record<string, number> = id === base.model ? { ...base.params } : {};
+  rawParams.forEach(raw => {
+    const [key, value] = raw.split('=');
+    if (value === undefined) fail(`--behavior-param must look like key=value, got "${raw}"`);
+    if (!(key in BEHAVIOR_MODELS[id].params)) {
+      fail(`${id} has no parameter "${key}" (${Object.keys(BEHAVIOR_MODELS[id].params).join(', ') || 'none'})`);
+    }
+    params[key] = parseNumber('behavior-param', value)!;
+  });
+  return { model: id, params };
+};
+
+const readJson = (path: string, what: string): string => {
+  try {
+    return readFileSync(resolve(path), 'utf8');
+  } catch (error) {
+    return fail(`could not read ${what} "${path}": ${(error as Error).message}`);
+  }
+};
+
+const loadScenario = (ref: string | undefined): Scenario | null => {
+  if (!ref) return null;
+  if (ref in REFERENCE_SCENARIOS) return REFERENCE_SCENARIOS[ref];
+  try {
+    return parseScenario(readJson(ref, 'scenario'));
+  } catch (error) {
+    return fail(`scenario "${ref}": ${(error as Error).message}`);
+  }
+};
+
+const loadConfig = (path: string | undefined, base: SimulationConfig): SimulationConfig => {
+  if (!path) return { ...base };
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(readJson(path, 'config'));
+  } catch (error) {
+    return fail(`could not parse config "${path}": ${(error as Error).message}`);
+  }
+  try {
+    return parseConfigOverrides(overrides, base);
+  } catch (error) {
+    return fail(`config "${path}": ${(error as Error).message}`);
+  }
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      scenario: { type: 'string' },
+      config: { type: 'string' },
+      ticks: { type: 'string' },
+      seed: { type: 'string' },
+      multiplier: { type: 'string' },
+      strategy: { type: 'string' },
+      behavior: { type: 'string' },
+      'behavior-param': { type: 'string', multiple: true },
+      'sample-every': { type: 'string' },
+      ledger: { type: 'boolean' },
+      cohorts: { type: 'string' },
+      strict: { type: 'boolean' },
+      runs: { type: 'string' },
+      'sweep-x': { type: 'string' },
+      'sweep-y': { type: 'string' },
+      compare: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const scenario = loadScenario(values.scenario);
+  const strategy = (values.strategy ?? scenario?.strategy) as DistributionStrategy | undefined;
+  if (strategy && !Object.values(DistributionStrategy).includes(strategy)) {
+    fail(`unknown strategy "${values.strategy}"`);
+  }
+
+  const config = loadConfig(values.config, scenario?.config ?? DEFAULT_CONFIG);
+  const ticks = parseCount('ticks', values.ticks) ?? scenario?.ticks ?? DEFAULT_RUN_LENGTH;
+  const outDir = resolve(values.out ?? 'sim-output');
+  const seed = parseNumber('seed', values.seed) ?? scenario?.seed;
+  const multiplier = parseNumber('multiplier', values.multiplier) ?? scenario?.multiplier ?? DEFAULT_MULTIPLIER;
+  const runs = parseCount('runs', values.runs) ?? 1;
+  const behavior = parseBehavior(values.behavior, values['behavior-param'], scenario?.behavior ?? DEFAULT_BEHAVIOR);
+
+  const xAxis = parseAxis('sweep-x', values['sweep-x'], config);
+  const yAxis = parseAxis('sweep-y', values['sweep-y'], config);
+  if (yAxis && !xAxis) fail('--sweep-y needs --sweep-x');
+
+  mkdirSync(outDir, { recursive: true });
+  const started = Date.now();
+
+  if (xAxis) {
+    const report = runSweep(config, { xAxis, yAxis, runsPerCell: runs, ticks, baseSeed: seed ?? randomSeed(), multiplier, strategy, behavior });
+    writeFileSync(join(outDir, 'sweep.json'), JSON.stringify({ config, behavior, ...report }, null, 2));
+    writeFileSync(join(outDir, 'sweep.csv'), toCsv(report.cells.map(cell => ({
+      [xAxis.field]: cell.x,
+      ...(yAxis ? { [yAxis.field]: cell.y } : {}),
+      ...cell.metrics
+    }))));
+    console.log(`Sweep · ${report.cells.length} cells × ${runs} runs × ${ticks} ticks (${Date.now() - started}ms)`);
+    console.log(`Wrote ${join(outDir, 'sweep.json')} and ${join(outDir, 'sweep.csv')}`);
+    return;
+  }
+
+  if (values.compare) {
+    const others = values.compare.split(',').filter(ref => ref.length > 0).map(ref => loadScenario(ref)!);
+    const variants = [
+      { name: scenario?.name ?? 'CLI run', config, multiplier, strategy: strategy ?? DistributionStrategy.STANDARD },
+      ...others.map(other => ({ name: other.name, config: other.config, multiplier: other.multiplier, strategy: other.strategy }))
+    ];
+    const compareSeed = seed ?? randomSeed();
+    const results = runComparison(variants, { ticks, seed: compareSeed, behavior });
+    const rows = compareRuns(results);
+    writeFileSync(join(outDir, 'comparison.json'), JSON.stringify({ seed: compareSeed, ticks, behavior, runs: results.map(r => ({ ...r.variant, metrics: r.metrics })) }, null, 2));
+    writeFileSync(join(outDir, 'comparison.csv'), comparisonToCsv(results, rows));
+
+    console.log(`Comparison · ${variants.length} setups × ${ticks} ticks · seed ${compareSeed} (${Date.now() - started}ms)`);
+    rows.forEach(row => {
+      const cells = row.values.map((v, i) => `${v.toFixed(2)}${i > 0 ? ` (${row.deltas[i] >= 0 ? '+' : ''}${(row.deltas[i] * 100).toFixed(1)}%)` : ''}`);
+      console.log(`  ${row.moved ? '*' : ' '} ${COMPARISON_METRICS[row.metric].label.padEnd(18)} ${cells.join(' · ')}`);
+    });
+    console.log(`Wrote ${join(outDir, 'comparison.json')} and ${join(outDir, 'comparison.csv')}`);
+    return;
+  }
+
+  if (runs > 1) {
+    const report = runMonteCarlo(config, { runs, ticks, baseSeed: seed ?? randomSeed(), multiplier, strategy, behavior });
+    writeFileSync(join(outDir, 'montecarlo.json'), JSON.stringify({ config, behavior, ...report }, null, 2));
+    writeFileSync(join(outDir, 'runs.csv'), toCsv(report.trials.map(trial => ({
+      seed: trial.seed,
+      roundsCompleted: trial.summary.roundsCompleted,
+      timerEnds: trial.summary.roundEndReasons.TIMER,
+      capEnds: trial.summary.roundEndReasons.CAP_REACHED,
+      totalDeposited: trial.summary.totalDeposited,
+      paidToUsers: trial.summary.totalPaidOut,
+      protocolBalance: trial.summary.protocolBalance,
+      operatorBalance: trial.summary.operatorBalance,
+      writtenOffPrincipal: trial.summary.writtenOffPrincipal,
+      depositors: trial.depositors,
+      losingDepositors: trial.losingDepositors
+    }))));
+
+    const fmt = (d: { p5: number; p50: number; p95: number }, digits: number) =>
+      `p5 ${d.p5.toFixed(digits)} · p50 ${d.p50.toFixed(digits)} · p95 ${d.p95.toFixed(digits)}`;
+    console.log(`Monte Carlo · ${report.runs} runs × ${ticks} ticks (${Date.now() - started}ms)`);
+    console.log(`  Trapped at round end   ${fmt(report.trappedAtRoundEnd, 0)}`);
+    console.log(`  Final reserve          ${fmt(report.finalProtocolBalance, 0)}`);
+    console.log(`  Losing depositors      ${fmt(report.losingShare, 3)}`);
+    console.log(`  Round ends             TIMER ${report.roundEndReasons.TIMER} · CAP ${report.roundEndReasons.CAP_REACHED}`);
+    console.log(`Wrote ${join(outDir, 'montecarlo.json')} and ${join(outDir, 'runs.csv')}`);
+    return;
+  }
+
+  const cohortSize = parseNumber('cohorts', values.cohorts);
+  if (cohortSize !== undefined && cohortSize < 1) fail('--cohorts must be at least 1');
+  let outcomes = null as OutcomeTracker | null;
+  let ledger = null as Ledger | null;
+  let invariants = null as InvariantChecker | null;
+  const { summary, series, finalState } = runSimulation(config, {
+    ticks,
+    seed,
+    multiplier,
+    strategy,
+    behavior,
+    sampleEvery: parseNumber('sample-every', values['sample-every']),
+    onStart: state => {
+      if (values.ledger) ledger = createLedger(state);
+      if (cohortSize !== undefined) outcomes = createOutcomeTracker(state);
+      invariants = createInvariantChecker(state);
+    },
+    onEvents: (events, state) => {
+      ledger?.observe(events, state);
+      outcomes?.observe(events, state);
+      invariants?.check(events, state);
+    }
+  });
+  if (!invariants) throw new Error('Run finished without starting');
+  const funds = { ...invariants.breakdown(), violations: invariants.violationCount() };
+
+  writeFileSync(join(outDir, 'summary.json'), JSON.stringify({ config, behavior, ...summary, funds }, null, 2));
+  writeFileSync(join(outDir, 'series.csv'), toCsv(series.map(point => ({ ...point }))));
+  writeFileSync(join(outDir, 'rounds.csv'), roundsToCsv(summary.roundHistory));
+  writeFileSync(join(outDir, 'scenario.json'), serializeScenario(createScenario({
+    name: scenario?.name ?? 'CLI run',
+    description: scenario?.description ?? '',
+    config,
+    multiplier,
+    strategy: strategy ?? DistributionStrategy.STANDARD,
+    behavior,
+    seed: summary.seed,
+    ticks
+  })));
+
+  console.log(`Seed ${summary.seed} · ${summary.ticks} ticks · ${summary.roundsCompleted} rounds closed (${Date.now() - started}ms)`);
+  console.log(`  Volume      $${summary.totalDeposited.toFixed(0)}`);
+  console.log(`  Paid out    $${summary.totalPaidOut.toFixed(0)} to users · ${PAYOUT_REASONS.map(r => `${r} $${summary.payouts.byReason[r].toFixed(0)}`).join(' · ')}`);
+  console.log(`  Exited      ${summary.usersPaidExit} / ${summary.totalUsers}`);
+  console.log(`  Trapped     ${summary.usersTrapped}`);
+  console.log(`  Written off ${summary.usersWrittenOff} positions · $${summary.writtenOffPrincipal.toFixed(0)} principal`);
+  console.log(`  Reserve     $${summary.protocolBalance.toFixed(0)}`);
+  console.log(`  Operator    $${summary.operatorBalance.toFixed(0)}`);
+  console.log(`  Health      ${summary.finalHealthFactor.toFixed(3)}`);
+  console.log(`  Funds       ${funds.violations === 0 ? 'conserved' : `${funds.violations} violations, drift $${funds.drift.toFixed(2)}`}`);
+  invariants.violations().slice(0, 5).forEach(v => console.log(`    tick ${v.tick}: ${describeViolation(v)}`));
+  console.log(`Wrote ${join(outDir, 'summary.json')}, ${join(outDir, 'series.csv')}, ${join(outDir, 'rounds.csv')} and a replayable ${join(outDir, 'scenario.json')}`);
+  if (ledger) {
+    writeFileSync(join(outDir, 'ledger.csv'), ledgerToCsv(ledger.entries()));
+    console.log(`Wrote ${join(outDir, 'ledger.csv')} (${ledger.entries().length} entries)`);
+  }
+  if (cohortSize !== undefined && outcomes) {
+    const cohorts = buildCohorts(outcomes.finalize(finalState), 'DEPOSITS', Math.floor(cohortSize));
+    writeFileSync(join(outDir, 'cohorts.csv'), cohortsToCsv(cohorts));
+    console.log(`Wrote ${join(outDir, 'cohorts.csv')} (${cohorts.length} cohorts)`);
+  }
+  if (values.strict && funds.violations > 0) process.exitCode = 1;
+};
+
+main();
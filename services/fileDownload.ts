@@ -0,0 +1,9 @@
+// Saves generated text (scenario, snapshot, CSV) through a temporary link
+export const downloadText = (fileName: string, text: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,6 +1,10 @@
 
 import { GoogleGenAI } from "@google/genai";
 import { SimulationStats, DistributionStrategy } from "../types";
+import { MULTIPLIER_POLICIES } from "../engine/multiplierPolicies";
+import { DISTRIBUTION_STRATEGIES } from "../engine/distribution";
+import { splitFee } from "../engine/simulationEngine";
+import { JACKPOT_POLICIES, REFUND_POLICIES } from "../engine/settlement";
 
 const apiKey = process.env.API_KEY || '';
 
@@ -22,12 +26,15 @@ export const analyzeRisk = async (stats: SimulationStats, conceptDescription: st
   try {
     const isYield = stats.config.yieldSplit > 0;
     const isInfinity = stats.strategy === DistributionStrategy.INFINITY_LOOP;
+    const distribution = DISTRIBUTION_STRATEGIES[stats.strategy].label.toUpperCase();
     
     const strategyDescription = isInfinity 
       ? "INFINITY LOOP (100% Flush)" 
       : isYield 
-        ? `COMMUNITY YIELD (${(stats.config.yieldSplit * 100).toFixed(0)}% Split)` 
-        : "STANDARD FIFO";
+        ? `COMMUNITY YIELD (${(stats.config.yieldSplit * 100).toFixed(0)}% Split, rest ${distribution})` 
+        : distribution;
+    const policy = MULTIPLIER_POLICIES[stats.config.multiplierPolicy.policy];
+    const routing = splitFee(stats.config, 1);
     
     const prompt = `
       You are a senior DeFi Strategist and Tokenomics Auditor. Analyze the "x2gether" protocol simulation.
@@ -35,17 +42,20 @@ export const analyzeRisk = async (stats: SimulationStats, conceptDescription: st
       Current Configuration:
       - **Multiplier**: ${stats.multiplier.toFixed(2)}x (Effective)
       - **Strategy**: ${strategyDescription}
-      - **Sustainability Tax**: ${stats.config.penaltyEnabled ? `ON (${(stats.config.penaltyRate * 100).toFixed(0)}% on > $${stats.config.penaltyThreshold})` : "OFF"}
-      - **Target 100 Strategy**: ${stats.target100Enabled ? "ON (Adjusts ROI based on queue length)" : "OFF"}
+      - **Sustainability Tax**: ${stats.config.penaltyEnabled ? `ON (${(stats.config.penaltyRate * 100).toFixed(0)}% on > $${stats.config.penaltyThreshold}, taken on ${stats.config.penaltyType === 'ENTRY' ? 'entry' : 'exit from the payout'})` : "OFF"}
+      - **Fee Routing**: ${(routing.toReserve * 100).toFixed(0)}% reserve / ${(routing.toJackpot * 100).toFixed(0)}% jackpot / ${(routing.toOperator * 100).toFixed(0)}% operator / ${(routing.toQueue * 100).toFixed(0)}% straight to the queue (operator has taken $${stats.operatorBalance.toFixed(2)})
+      - **Multiplier Policy**: ${policy.label} (${policy.description})
+      - **Round Settlement**: ${(stats.config.jackpotPayoutShare * 100).toFixed(0)}% of the jackpot to ${JACKPOT_POLICIES[stats.config.jackpotPolicy].label}, ${REFUND_POLICIES[stats.config.refundPolicy].label} refund, ${(stats.config.reserveCarryOver * 100).toFixed(0)}% of the reserve carried into the next round, trapped positions ${stats.config.trappedPolicy === 'CARRY_OVER' ? 'carried into the next round' : 'written off'}
       
       Simulation Snapshot:
       - Total Volume: $${stats.totalDeposited.toFixed(2)}
       - Protocol Vault: $${stats.protocolBalance.toFixed(2)}
       - Active Users: ${stats.usersTrapped}
       - Exited Users: ${stats.usersPaidExit}
+      - Principal Written Off Between Rounds: $${stats.writtenOffPrincipal.toFixed(2)}
 
       Specific Analysis Questions:
-      1. **Target 100 Strategy**: ${stats.target100Enabled ? "Is the dynamic multiplier adjustment effective at stabilizing the system?" : "Should they enable the Target 100 Strategy to prevent collapse?"}
+      1. **Multiplier Policy**: ${policy.id === 'FIXED' ? "Should they switch to an adaptive multiplier policy to prevent collapse?" : `Is the ${policy.label} policy effective at stabilizing the system?`}
       2. **Sustainability Tax**: ${stats.config.penaltyEnabled ? "Is the tax threshold and rate effective for long-term sustainability?" : "Would enabling a sustainability tax help extend the runway?"}
       3. **Solvency**: With the current Reserve of $${stats.protocolBalance.toFixed(0)}, can the Midnight Refund save the trapped users?
       4. **Verdict**: Give a risk score (1-10) and a brutally honest conclusion.
@@ -0,0 +1,20 @@
+import { EngineSnapshot } from '../types';
+import { parseSnapshot, serializeSnapshot } from '../engine/snapshot';
+
+const STORAGE_KEY = 'x2gether.snapshot';
+
+// Throws when the browser refuses the write (usually the ~5MB quota on very long queues)
+export const saveSnapshotToStorage = (snapshot: EngineSnapshot) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeSnapshot(snapshot));
+  } catch (error) {
+    throw new Error(`browser storage refused the snapshot: ${(error as Error).message}`);
+  }
+};
+
+export const loadSnapshotFromStorage = (): EngineSnapshot | null => {
+  const text = localStorage.getItem(STORAGE_KEY);
+  return text ? parseSnapshot(text) : null;
+};
+
+export const clearStoredSnapshot = () => localStorage.removeItem(STORAGE_KEY);
@@ -7,34 +7,113 @@ export interface Player {
   entryRound: number;
   exitRound?: number; // When they finished
   timestamp: number;
-  slashed?: boolean; // True if hit by generic penalty
+  slashed?: boolean; // True once the EXIT-mode Sustainability Tax took its cut
   multiplier: number; // The specific multiplier at entry
   isVip?: boolean;
-  isTaxTarget?: boolean;
+  isTaxTarget?: boolean; // Deposit was over the Sustainability Tax threshold
   fastFilled?: boolean; 
   isClientDeposit?: boolean; // Tracked for dApp
   isUnlucky?: boolean; // True if hit by break-even risk
   isReinvest?: boolean; // True if this is an auto-compound entry
-  exitReason?: 'PAID' | 'REFUND' | 'SLASHED' | 'JACKPOT_WIN' | 'EARLY_EXIT';
+  carriedOver?: boolean; // Rolls into the next round's queue instead of being written off
+  exitReason?: ExitReason;
   netProfit?: number;
 }
 
+export type ExitReason = 'PAID' | 'REFUND' | 'SLASHED' | 'JACKPOT_WIN' | 'EARLY_EXIT';
+// Written-off positions never exit, but leave with what they collected when the next round opens
+export type PayoutReason = ExitReason | 'WRITE_OFF';
+
+// Who a position belongs to, for payout accounting (see engine/payouts.ts)
+export type ParticipantClass = 'ORGANIC' | 'CLIENT' | 'REINVEST' | 'JACKPOT_BOT' | 'PROTOCOL_SEED';
+
+// Money handed over to positions as they settle
+export interface PayoutBreakdown {
+  byReason: Record<PayoutReason, number>;
+  byClass: Record<ParticipantClass, number>;
+}
+
+// How deposit head pools and drips are split across the queue (see engine/distribution.ts)
 export enum DistributionStrategy {
-  STANDARD = 'STANDARD', // Legacy (Now controlled by yieldSplit)
+  STANDARD = 'STANDARD', // Head-first FIFO
   INFINITY_LOOP = 'INFINITY_LOOP', // 100% Flush, Mandatory Reinvest
+  PRO_RATA_DEPOSIT = 'PRO_RATA_DEPOSIT',
+  PRO_RATA_LIABILITY = 'PRO_RATA_LIABILITY',
+  TIERED = 'TIERED',
+  TAIL_FIRST = 'TAIL_FIRST',
 }
 
+export type RoundEndReason = 'TIMER' | 'CAP_REACHED';
+
 export interface RoundLog {
   roundNumber: number;
   finalBalance: number;
-  totalVolume: number;
+  totalVolume: number; // Cumulative for the run; accounting.deposited is this round's
   winnerId?: string;
   timestamp: number;
-  reason: 'TIMER' | 'CAP_REACHED';
+  reason: RoundEndReason;
+  startTime?: number; // Simulated ms the round opened; missing in older logs
+  settlement?: RoundSettlement; // Missing in logs saved before settlement policies
+  accounting?: RoundAccounting; // Missing in logs saved before carry-over modes
+}
+
+// Round-end settlement policies, see engine/settlement.ts
+export type JackpotPolicyId = 'LAST_DEPOSITOR' | 'LAST_N_PRO_RATA';
+export type RefundPolicyId = 'FIFO' | 'PRO_RATA' | 'SMALLEST_FIRST';
+// Positions still short of target after settlement: rolled into the next round or dropped with a recorded loss
+export type TrappedPolicyId = 'CARRY_OVER' | 'WRITE_OFF';
+
+// What the round end paid out and what it left for the next round
+export interface RoundSettlement {
+  jackpotPolicy: JackpotPolicyId;
+  refundPolicy: RefundPolicyId;
+  jackpotPaid: number;
+  jackpotWinners: string[];
+  stuckUsers: number;       // Positions below break-even when the round ended
+  stuckPrincipal: number;   // Sum of what they were short of break-even
+  refundBudget: number;     // Reserve offered to the Midnight Refund
+  refunded: number;
+  usersRefunded: number;    // Brought all the way back to break-even
+  leftBelowBreakEven: number; // Positions still short of break-even after the refund
+  trappedPrincipal: number;   // What they are still short
+  carriedOver: number;      // Reserve left for the next round
+  jackpotCarriedOver: number;
+}
+
+// Balances when a round opened, so its log can report this round's totals instead of the run's
+export interface RoundOpening {
+  totalDeposited: number;
+  protocolBalance: number;
+  jackpotBalance: number;
+  carriedIn: number;          // Positions inherited from the previous round
+  carriedInLiability: number;
+}
+
+export interface RoundAccounting {
+  trappedPolicy: TrappedPolicyId;
+  deposited: number;          // This round's volume
+  transactions: number;       // Depositor transactions counted toward the cap
+  peakLiability: number;
+  reserveChange: number;
+  jackpotChange: number;
+  carriedIn: number;
+  carriedInLiability: number;
+  carriedOut: number;         // Positions rolled into the next round
+  carriedOutLiability: number;
+  writtenOff: number;         // Depositor positions dropped when the next round opens
+  writtenOffPrincipal: number; // Deposits they never got back
+  writtenOffLiability: number; // Target they were still owed
 }
 
 export interface SimulationConfig {
   feePercent: number;        // Entry Fee (0-0.20)
+  minimumFee: number;        // Floor on the fee + tax charged per deposit
+
+  // Fee Routing: relative weights for where fees and taxes go (see splitFee)
+  feeToReserve: number;
+  feeToJackpot: number;
+  feeToOperator: number;     // Leaves the system as the operator / treasury take
+  feeToQueue: number;        // Paid straight to the queue with the run's distribution strategy
   
   // Single Customizable Penalty
   penaltyEnabled: boolean;
@@ -52,8 +131,7 @@ export interface SimulationConfig {
   yieldSplit: number;        // 0 = 100% Head
 
   // Strategies
-  target100Enabled: boolean; // Adaptive Target 100
-  decayStrategyEnabled: boolean; // Queue-based Decay
+  multiplierPolicy: MultiplierSettings; // Decides each new position's multiplier
 
   initialReserve: number;    // Starting Vault Balance
   
@@ -64,18 +142,26 @@ export interface SimulationConfig {
   // Loop Config
   reinvestRate: number;      // % Forced Reinvest
   reverseYieldRate: number;  // % to Tail
-  
-  decayRate: number; // Per user decay amount
+
+  // Round-End Settlement (see engine/settlement.ts)
+  jackpotPolicy: JackpotPolicyId;
+  jackpotPayoutShare: number;  // Share of the jackpot paid out at round end
+  jackpotWinnerCount: number;  // Winners under LAST_N_PRO_RATA
+  refundPolicy: RefundPolicyId;
+  reserveCarryOver: number;    // Share of the reserve held back from the Midnight Refund
+  trappedPolicy: TrappedPolicyId;
   
   // Sustainability
   maxDepositLimit: number; // 1000 USDC Cap
   maxTransactions: number; // 1000 Tx Cap per day
-  roundDurationSeconds: number; // Initial time
+  roundDurationSeconds: number; // Every round opens with this long on the timer; deposits extend it up to MAX_ROUND_DURATION_SECONDS
+  secondsPerTick: number; // Simulated seconds that pass per engine tick
 }
 
 export interface SimulationStats {
   totalDeposited: number;
-  totalPaidOut: number;
+  totalPaidOut: number; // Received by real users (organic + client positions)
+  payouts: PayoutBreakdown;
   totalUsers: number;
   usersPaidExit: number;
   usersTrapped: number;
@@ -85,8 +171,10 @@ export interface SimulationStats {
   multiplier: number;
   protocolBalance: number; // Tracks Reserve + Fees + Taxes
   jackpotBalance: number;  // Tracks profits from Jackpot Bots
-  target100Enabled: boolean;
+  operatorBalance: number; // Fees and taxes routed to the operator
+  writtenOffPrincipal: number; // Lost by depositor positions that new rounds dropped
   config: SimulationConfig; 
+  seed: number;
   isAutoPaused?: boolean; 
   
   // Mathematical Indicators
@@ -94,6 +182,7 @@ export interface SimulationStats {
   currentExitPenalty: number; // Dynamic penalty for emergency exit
 
   // Timer & Round Stats
+  simulatedTime: number; // Virtual clock (ms since run start)
   roundExpiry: number; // Timestamp
   lastDepositorId: string | null;
   roundActive: boolean;
@@ -102,11 +191,348 @@ export interface SimulationStats {
   roundHistory: RoundLog[];
 }
 
-export interface ChartDataPoint {
+// Depositor flow models, see engine/behaviors.ts
+export type BehaviorModelId = 'CLASSIC' | 'POISSON' | 'HYPE_CYCLE' | 'HERD_PANIC' | 'WHALES';
+
+export interface BehaviorSettings {
+  model: BehaviorModelId;
+  params: Record<string, number>; // Missing keys fall back to the model's defaults
+}
+
+// Multiplier policies, see engine/multiplierPolicies.ts
+export type MultiplierPolicyId = 'FIXED' | 'LOGISTIC_DECAY' | 'LINEAR_DECAY' | 'HEALTH_INDEXED' | 'RESERVE_COVERAGE' | 'TIME_IN_ROUND' | 'TARGET_100';
+
+export interface MultiplierSettings {
+  policy: MultiplierPolicyId;
+  params: Record<string, number>; // Missing keys fall back to the policy's defaults
+}
+
+export interface PendingTransaction {
+  amount: number;
+  isClient: boolean;
+  isReinvest: boolean;
+}
+
+// Full state of the headless simulation engine (see engine/simulationEngine.ts)
+export interface EngineState {
+  queue: Player[];
+  exits: Player[]; 
+  historyCount: number;
+  payouts: PayoutBreakdown;
+  totalDeposited: number;
+  protocolBalance: number;
+  jackpotBalance: number; 
+  operatorBalance: number; // Fees and taxes that left the system
+  writtenOffUsers: number; // Depositor positions dropped unpaid by new rounds
+  writtenOffPrincipal: number; // What they deposited and never got back
+  currentRound: number; // Engine Tick
+  gameRound: number; // Actual Game Day
+  tickCount: number;
+  multiplier: number; // Fixed multiplier used when no adaptive strategy is on
+  strategy: DistributionStrategy;
+  seed: number; // Seed the run was started with (reproducible replays)
+  rngState: number; // PRNG cursor, advanced by every random draw
+  clock: number; // Simulated ms since run start (see engine/clock.ts)
+  elapsedTicks: number; // Auto-run ticks since run start
+  exitMomentum: number; // Decaying count of recent emergency exits (herd behavior input)
+  currentAdaptiveMultiplier: number; // Multiplier handed to the latest deposit, before break-even draws 
+  pendingTransactions: PendingTransaction[];
+  
+  // Round State
+  roundStartTime: number; // Simulated ms when the current round opened
+  roundOpening: RoundOpening;
+  roundPeakLiability: number; // Highest liability seen since the round opened
+  roundExpiry: number;
+  lastDepositorId: string | null;
+  roundHistory: RoundLog[];
+  roundActive: boolean;
+  transactionsInCurrentRound: number;
+
+  // Sustainability Metrics
+  currentLiability: number;
+  healthFactor: number;
+  dynamicFee: number;
+  exitPenaltyRate: number; // Fluctuation based on panic
+}
+
+// Emitted by every engine step so callers can react without diffing state
+// Where a credit to a queued player came from
+export type PayoutSource = 'HEAD' | 'DRIP' | 'REVERSE_YIELD' | 'JACKPOT' | 'MIDNIGHT_REFUND' | 'FEE';
+
+// One fee or tax after config.feeTo* routing
+export interface FeeSplit {
+  toReserve: number;
+  toJackpot: number;
+  toOperator: number;
+  toQueue: number;
+}
+
+export type EngineEvent =
+  | { type: 'DEPOSIT'; playerId: string; amount: number; fee: number; multiplier: number; isClient: boolean; isReinvest: boolean }
+  | { type: 'FEE_SPLIT'; playerId: string; toReserve: number; toJackpot: number; toOperator: number; toQueue: number }
+  | { type: 'PAYOUT'; source: PayoutSource; playerId: string; amount: number }
+  | { type: 'YIELD'; amount: number; share: number; playerIds: string[] } // Split evenly across the whole queue
+  | { type: 'REINVEST_QUEUED'; playerId: string; amount: number }
+  | { type: 'JACKPOT_BOT'; playerId: string; amount: number }
+  | { type: 'JACKPOT_BOT_PROFIT'; playerId: string; amount: number }
+  | { type: 'DRIP'; amount: number }
+  | { type: 'EXIT_TAX'; playerId: string; amount: number; toReserve: number; toJackpot: number; toOperator: number; toQueue: number } // Follows the EXIT of the slashed position
+  | { type: 'EXIT'; playerId: string; reason: ExitReason; collected: number; netProfit: number }
+  | { type: 'EMERGENCY_EXIT'; playerId: string; refund: number; penalty: number }
+  | { type: 'ROUND_END'; roundNumber: number; reason: RoundEndReason }
+  | { type: 'WRITE_OFF'; playerId: string; collected: number; unpaid: number } // Dropped by a new round: keeps what it collected, loses the rest of its target
+  | { type: 'ROUND_START'; roundNumber: number; settledCollected: number }; // What the refunded, jackpot-paid and protocol positions it dropped had collected
+
+// One flow in the append-only run ledger (engine/ledger.ts)
+export type LedgerEntryType =
+  | 'OPENING_RESERVE' | 'OPENING_JACKPOT' | 'OPENING_POSITION'
+  | 'DEPOSIT' | 'REINVEST' | 'SEED_DEPOSIT' | 'JACKPOT_BOT_DEPOSIT'
+  | 'FEE_TO_RESERVE' | 'FEE_TO_JACKPOT' | 'FEE_TO_OPERATOR' | 'FEE_PAYOUT'
+  | 'HEAD_PAYOUT' | 'YIELD' | 'DRIP' | 'DRIP_PAYOUT' | 'REVERSE_YIELD'
+  | 'JACKPOT_PAYOUT' | 'JACKPOT_BOT_PROFIT' | 'MIDNIGHT_REFUND' | 'REINVEST_QUEUED'
+  | 'EMERGENCY_REFUND' | 'EMERGENCY_PENALTY' | 'EXIT_TAX_TO_RESERVE' | 'EXIT_TAX_TO_JACKPOT' | 'EXIT_TAX_TO_OPERATOR' | 'EXIT'
+  | 'WRITE_OFF' | 'ROUND_END' | 'ROUND_START';
+
+export interface LedgerEntry {
+  seq: number;
+  tick: number; // Engine ticks elapsed when it happened
+  simulatedTime: number;
   round: number;
+  type: LedgerEntryType;
+  playerId: string | null;
+  amount: number;
+  playerIds?: string[]; // Every recipient of a queue-wide YIELD
+  detail?: string;
+}
+
+// Conservation-of-funds bookkeeping (engine/invariants.ts)
+export interface FundsBreakdown {
+  inflows: number; // Opening balances + every real deposit
+  queueCollected: number;
+  paidOut: number;
+  reserve: number;
+  jackpot: number;
+  operator: number;
+  drift: number; // Held minus inflows; stays ~0 when funds are conserved
+}
+
+export interface InvariantViolation {
+  tick: number;
+  simulatedTime: number;
+  round: number;
+  delta: number; // Money created (+) or lost (-) by this step
+  drift: number; // Cumulative after this step
+  eventTypes: EngineEvent['type'][];
+}
+
+export interface EngineStep {
+  state: EngineState;
+  events: EngineEvent[];
+}
+
+// One sample of a headless run (engine/runner.ts)
+export interface SeriesPoint {
+  tick: number;
+  simulatedTime: number;
+  round: number;
+  totalDeposited: number;
+  queueLength: number;
+  protocolBalance: number;
+  jackpotBalance: number;
+  liability: number;
+  healthFactor: number;
+  multiplier: number;
+  dynamicFee: number;
+  totalExits: number; // Cumulative exits (paid and emergency) since the run started
+  trappedPrincipal: number;
+}
+
+// What a series recorder has seen, saved with a snapshot so the restored run keeps its chart history (engine/series.ts)
+export interface RecordedSeries {
+  points: SeriesPoint[]; // Recorded points only, without the live one
+  stride: number;
+  steps: number; // Steps observed so far
+  totalExits: number;
+}
+
+export interface RunSummary {
+  seed: number;
+  ticks: number;
+  simulatedTime: number;
+  roundsCompleted: number;
+  roundEndReasons: Record<RoundEndReason, number>;
+  totalDeposited: number;
+  totalPaidOut: number;
+  payouts: PayoutBreakdown;
+  totalUsers: number;
+  usersPaidExit: number;
   usersTrapped: number;
-  requiredNewLiquidity: number;
-  protocolReserves: number;
+  protocolBalance: number;
+  jackpotBalance: number;
+  operatorBalance: number;
+  usersWrittenOff: number;
+  writtenOffPrincipal: number;
+  finalLiability: number;
+  finalHealthFactor: number;
+  roundHistory: RoundLog[];
+}
+
+export interface Distribution {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+// Where money credited to a position originally came from (see engine/outcomes.ts)
+export type FundingSource = 'DEPOSITS' | 'INITIAL_RESERVE' | 'FEES' | 'JACKPOT';
+
+// Final fate of one queue position, as seen by engine/outcomes.ts
+export type OutcomeKind = 'PAID' | 'REFUND' | 'EARLY_EXIT' | 'JACKPOT_WIN' | 'TRAPPED' | 'OPEN';
+
+export interface PlayerOutcome {
+  playerId: string;
+  deposit: number;
+  collected: number;
+  netProfit: number;
+  outcome: OutcomeKind;
+  isOrganic: boolean; // Real depositor: not the protocol seed, a jackpot bot or a reinvest entry
+  entryIndex: number | null; // Position among organic deposits; null if it entered before tracking started
+  entryTime: number | null; // Simulated ms; null if it entered before tracking started
+  exitTime: number | null; // Simulated ms it settled (round close for trapped positions); null while OPEN
+  funding: Record<FundingSource, number>; // Credits received, by origin
+}
+
+export interface LorenzPoint {
+  population: number; // Cumulative share of participants, poorest first
+  share: number; // Cumulative share of the total they hold
+}
+
+// Who paid whom across organic depositors (see engine/wealth.ts)
+export interface WealthTransfer {
+  winners: number;
+  losers: number;
+  totalProfit: number;
+  totalLoss: number; // Principal lost by losers, as a positive number
+  profitBySource: Record<FundingSource, number>;
+}
+
+export type CohortWindow = 'DEPOSITS' | 'HOURS';
+
+// Depositors grouped by when they entered (see engine/cohorts.ts)
+export interface Cohort {
+  index: number;
+  label: string;
+  depositors: number;
+  deposited: number;
+  counts: Record<OutcomeKind, number>;
+  avgNetProfit: number;
+  avgTimeToExit: number | null; // Simulated ms, over positions that left with money (not trapped or open)
+}
+
+export interface MonteCarloTrial {
+  seed: number;
+  summary: RunSummary;
+  trappedAtRoundEnd: number[]; // Unsettled depositor positions left at every round end
+  healthAtRoundEnd: number[]; // Reserve / liability right after each round settles
+  depositors: number; // Settled organic depositors
+  losingDepositors: number;
+}
+
+export interface MonteCarloReport {
+  runs: number;
+  ticks: number;
+  trials: MonteCarloTrial[];
+  trappedAtRoundEnd: Distribution;
+  finalProtocolBalance: Distribution;
+  losingShare: Distribution; // Per-run share of settled depositors with negative netProfit
+  roundEndReasons: Record<RoundEndReason, number>;
+}
+
+// Numeric SimulationConfig fields a sweep can vary
+export type SweepConfigField = { [K in keyof SimulationConfig]: SimulationConfig[K] extends number ? K : never }[keyof SimulationConfig];
+
+// Plus the active multiplier policy's settings, e.g. multiplierPolicy.params.decayRate
+export type SweepField = SweepConfigField | `multiplierPolicy.params.${string}`;
+
+export type SweepMetricId = 'losingShare' | 'healthAtRoundEnd' | 'trappedAtRoundEnd' | 'finalProtocolBalance' | 'totalPaidOut' | 'operatorTake';
+
+export interface SweepAxis {
+  field: SweepField;
+  from: number;
+  to: number;
+  steps: number;
+}
+
+export interface SweepCell {
+  x: number;
+  y: number | null; // null on one-dimensional sweeps
+  metrics: Record<SweepMetricId, number>; // Averaged over the cell's runs
+}
+
+export interface SweepReport {
+  xAxis: SweepAxis;
+  yAxis: SweepAxis | null;
+  runsPerCell: number;
+  ticks: number;
+  cells: SweepCell[];
+}
+
+// Side-by-side runs under one seed and behavior, see engine/comparison.ts
+export interface ComparisonVariant {
+  name: string;
+  config: SimulationConfig;
+  multiplier: number;
+  strategy: DistributionStrategy;
+}
+
+export type ComparisonMetricId = 'totalDeposited' | 'totalPaidOut' | 'usersPaidExit' | 'usersTrapped' | 'losingShare' | 'protocolBalance' | 'jackpotBalance' | 'operatorBalance' | 'writtenOffPrincipal' | 'finalLiability' | 'finalHealthFactor' | 'roundsCompleted';
+
+export interface ComparisonRun {
+  variant: ComparisonVariant;
+  summary: RunSummary;
+  series: SeriesPoint[];
+  metrics: Record<ComparisonMetricId, number>;
+}
+
+export interface ComparisonRow {
+  metric: ComparisonMetricId;
+  values: number[]; // One per run, baseline first
+  deltas: number[]; // Relative to the baseline; 0 for the baseline itself
+  moved: boolean; // Some run differs from the baseline by more than the threshold
+}
+
+// Shareable simulation setup, see engine/scenario.ts
+export interface Scenario {
+  version: number;
+  name: string;
+  description: string;
+  config: SimulationConfig;
+  multiplier: number;
+  strategy: DistributionStrategy;
+  behavior: BehaviorSettings;
+  seed: number;
+  ticks: number; // Run length in engine ticks
+}
+
+// Resumable copy of a run in progress, see engine/snapshot.ts
+export interface EngineSnapshot {
+  version: number;
+  savedAt: number; // Wall-clock ms
+  scenario: Scenario; // Settings the run was using, so it resumes under the same rules
+  state: EngineState;
+  series?: RecordedSeries; // Missing from snapshots saved before it was kept
 }
 
 export enum SimulationStatus {